@@ -0,0 +1,14 @@
+import { allocateProportionally } from './allocation';
+
+describe('allocateProportionally', () => {
+  it('should split a total exactly using the largest remainders', () => {
+    expect(allocateProportionally(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateProportionally(1000, [5000, 3000, 2000])).toEqual([500, 300, 200]);
+    expect(allocateProportionally(10, [2, 2, 3])).toEqual([3, 3, 4]);
+  });
+
+  it('should return zero shares when there is nothing to weigh', () => {
+    expect(allocateProportionally(500, [0, 0])).toEqual([0, 0]);
+    expect(allocateProportionally(0, [10, 20])).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,30 @@
+import type { ApplyDiscountsResult, DiscountAllocation } from "./types";
+
+// Largest-remainder split: shares are proportional to the weights and always sum to the total.
+export function allocateProportionally(totalInCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (totalWeight <= 0 || totalInCents === 0) return weights.map(() => 0);
+
+  const exactShares = weights.map(weight => (Math.max(0, weight) / totalWeight) * totalInCents);
+  const shares = exactShares.map(share => Math.floor(share));
+  let remainder = totalInCents - shares.reduce((sum, share) => sum + share, 0);
+  const byRemainder = exactShares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (remainder <= 0) break;
+    shares[index]++;
+    remainder--;
+  }
+  return shares;
+}
+
+export function sumAllocations(allocations: DiscountAllocation[], predicate: (allocation: DiscountAllocation) => boolean = () => true): number {
+  return allocations.filter(predicate).reduce((sum, allocation) => sum + allocation.amountInCents, 0);
+}
+
+export function getLineDiscountsInCents(result: Pick<ApplyDiscountsResult, 'updatedCartItems' | 'allocations'>): number[] {
+  return result.updatedCartItems.map((_, lineIndex) =>
+    sumAllocations(result.allocations, allocation => allocation.lineIndex === lineIndex)
+  );
+}
@@ -0,0 +1,105 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { applyDiscounts, calculateDiscountAmount, evaluateDiscountsWithReasons } from './discount';
+import { calculateRefund } from './refunds';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const anyThreeCandles: Discount = {
+  id: 'd_candles', type: 'BUNDLE', amountType: 'FIXED_PRICE', amount: 4500, startsAt: TEST_START, isActive: true,
+  bundle: { components: [{ collections: ['c_candles'], quantity: 3 }] },
+};
+
+const teaKit: Discount = {
+  id: 'd_kit', type: 'BUNDLE', amountType: 'FIXED_PRICE', amount: 3000, startsAt: TEST_START, isActive: true,
+  bundle: { components: [{ variants: ['v_mug'], quantity: 1 }, { variants: ['v_coaster'], quantity: 1 }, { variants: ['v_tea'], quantity: 1 }] },
+};
+
+describe('Fixed-price amounts', () => {
+  it('should set the unit price of PRODUCT discounts without raising cheaper items', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_tee', collectionIds: [], quantity: 2, priceInCents: 2500 },
+      { variantId: 'v_sock', collectionIds: [], quantity: 1, priceInCents: 800 },
+    ] };
+    const discount: Discount = { id: 'd_ten', type: 'PRODUCT', amountType: 'FIXED_PRICE', amount: 1000, applyToAllProducts: true, startsAt: TEST_START, isActive: true };
+
+    expect(calculateDiscountAmount(discount, cart)).toBe(3000);
+    expect(applyDiscounts(cart, [discount]).updatedCartItems.map(item => item.priceInCents)).toEqual([1000, 800]);
+  });
+});
+
+describe('Bundle discounts', () => {
+  it('should form as many bundles as possible and spread the savings over their lines', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_pine', collectionIds: ['c_candles'], quantity: 4, priceInCents: 2000 },
+      { variantId: 'v_rose', collectionIds: ['c_candles'], quantity: 3, priceInCents: 1800 },
+    ] };
+
+    const result = applyDiscounts(cart, [anyThreeCandles]);
+
+    // Bundles of 3 pine (6000) and 1 pine + 2 rose (5600), the seventh candle stays full price.
+    expect(result.bundleDiscountInCents).toBe(1500 + 1100);
+    expect(result.allocations.map(allocation => [allocation.variantId, allocation.amountInCents])).toEqual([['v_pine', 1893], ['v_rose', 707]]);
+  });
+
+  it('should only price complete kits and explain what is missing', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_mug', collectionIds: [], quantity: 2, priceInCents: 1800 },
+      { variantId: 'v_coaster', collectionIds: [], quantity: 1, priceInCents: 600 },
+      { variantId: 'v_tea', collectionIds: [], quantity: 1, priceInCents: 1200 },
+    ] };
+
+    expect(calculateDiscountAmount(teaKit, cart)).toBe(600);
+    const [evaluation] = evaluateDiscountsWithReasons({ ...cart, items: cart.items.slice(0, 2) }, [teaKit], undefined, mockContext);
+    expect(evaluation.failures).toEqual([expect.objectContaining({
+      code: 'BUNDLE_INCOMPLETE',
+      missingComponents: [{ componentIndex: 2, remainingQuantity: 1 }],
+    })]);
+  });
+
+  it('should move units between components when a broad one took what a specific one needs', () => {
+    const candleSet: Discount = {
+      id: 'd_set', type: 'BUNDLE', amountType: 'FIXED_PRICE', amount: 5000, startsAt: TEST_START, isActive: true,
+      bundle: { components: [{ collections: ['c_candles'], quantity: 2 }, { variants: ['v_candle_large'], quantity: 1 }] },
+    };
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_candle_large', collectionIds: ['c_candles'], quantity: 1, priceInCents: 3000 },
+      { variantId: 'v_candle_small', collectionIds: ['c_candles'], quantity: 2, priceInCents: 1500 },
+    ] };
+
+    expect(evaluateDiscountsWithReasons(cart, [candleSet], undefined, mockContext)[0].eligible).toBe(true);
+    expect(applyDiscounts(cart, [candleSet]).bundleDiscountInCents).toBe(1000);
+  });
+
+  it('should only build bundles from units a buy X get Y offer left', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v_tee', collectionIds: [], quantity: 4, priceInCents: 1000 }] };
+    const bogo: Discount = {
+      id: 'd_bogo', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { variants: ['v_tee'], quantity: 1 },
+      get: { variants: ['v_tee'], quantity: 1, amountType: 'FREE' }, maximumApplicationsPerOrder: 1,
+      combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true,
+    };
+    const twoForTen: Discount = {
+      id: 'd_two', type: 'BUNDLE', amountType: 'FIXED_PRICE', amount: 1000, bundle: { components: [{ variants: ['v_tee'], quantity: 2 }] },
+      combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true,
+    };
+
+    const result = applyDiscounts(cart, [bogo, twoForTen]);
+
+    expect(result.buyXGetYDiscountInCents).toBe(1000);
+    expect(result.bundleDiscountInCents).toBe(1000);
+  });
+
+  it('should claw back bundle savings when a returned item breaks the bundle', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_mug', collectionIds: [], quantity: 1, priceInCents: 1800 },
+      { variantId: 'v_coaster', collectionIds: [], quantity: 1, priceInCents: 600 },
+      { variantId: 'v_tea', collectionIds: [], quantity: 1, priceInCents: 1200 },
+    ] };
+    const applied = applyDiscounts(cart, [teaKit]);
+
+    const refund = calculateRefund(cart, applied, [{ lineIndex: 2, quantity: 1 }]);
+
+    expect(refund.clawbacks).toEqual([expect.objectContaining({ discountId: 'd_kit', amountInCents: 400 })]);
+    expect(refund.refundInCents).toBe(1000 - 400);
+  });
+});
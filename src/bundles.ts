@@ -0,0 +1,102 @@
+import { allocateProportionally } from "./allocation";
+import { matchesBuyXGetYSelector } from "./bxgy";
+import { getAmountOffInCents } from "./tiers";
+import type { BundleAllocation, BundleComponent, CartItem, Discount } from "./types";
+
+type Unit = { lineIndex: number; priceInCents: number };
+
+// Fills each component from the most expensive units still available, so every bundle saves as much as it can.
+// When a component finds nothing left, units an earlier component took are moved to other lines it also matches.
+function fillBundle(components: BundleComponent[], items: CartItem[], available: number[]): {
+  units: Unit[];
+  taken: number[];
+  missingComponents: Array<{ componentIndex: number; remainingQuantity: number }>;
+} {
+  const taken = items.map(() => 0);
+  const missingComponents: Array<{ componentIndex: number; remainingQuantity: number }> = [];
+  const linesByPrice = items.map((_, lineIndex) => lineIndex).sort((a, b) => items[b].priceInCents - items[a].priceInCents);
+  const matchingLines = components.map(component => linesByPrice.filter(lineIndex => matchesBuyXGetYSelector(component, items[lineIndex])));
+  const assigned = components.map(() => items.map(() => 0));
+
+  // Breadth-first search for a line with a free unit, through components that can give up a line they hold.
+  const takeUnit = (componentIndex: number): boolean => {
+    const cameFrom = new Map<number, { componentIndex: number; lineIndex: number }>();
+    const visitedLines = new Set<number>();
+    const queue = [componentIndex];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const lineIndex of matchingLines[current]) {
+        if (visitedLines.has(lineIndex)) continue;
+        visitedLines.add(lineIndex);
+        if (taken[lineIndex] < available[lineIndex]) {
+          taken[lineIndex]++;
+          let step: { componentIndex: number; lineIndex: number } | undefined = { componentIndex: current, lineIndex };
+          while (step) {
+            assigned[step.componentIndex][step.lineIndex]++;
+            const previous = cameFrom.get(step.componentIndex);
+            if (previous) assigned[step.componentIndex][previous.lineIndex]--;
+            step = previous;
+          }
+          return true;
+        }
+        components.forEach((_, holder) => {
+          if (holder === componentIndex || cameFrom.has(holder) || assigned[holder][lineIndex] === 0) return;
+          cameFrom.set(holder, { componentIndex: current, lineIndex });
+          queue.push(holder);
+        });
+      }
+    }
+    return false;
+  };
+
+  components.forEach((component, componentIndex) => {
+    let remainingQuantity = component.quantity;
+    while (remainingQuantity > 0 && takeUnit(componentIndex)) remainingQuantity--;
+    if (remainingQuantity > 0) missingComponents.push({ componentIndex, remainingQuantity });
+  });
+
+  const units: Unit[] = [];
+  assigned.forEach(quantities => {
+    for (const lineIndex of linesByPrice) {
+      for (let i = 0; i < quantities[lineIndex]; i++) {
+        units.push({ lineIndex, priceInCents: items[lineIndex].priceInCents });
+      }
+    }
+  });
+  return { units, taken, missingComponents };
+}
+
+// Components still missing before the first bundle can be formed, empty when it can.
+export function getBundleShortfall(discount: Discount, items: CartItem[]): Array<{ componentIndex: number; remainingQuantity: number }> {
+  return fillBundle(discount.bundle?.components ?? [], items, items.map(item => item.quantity)).missingComponents;
+}
+
+// Forms as many bundles as the cart allows; each bundle's savings are split over its units by price.
+export function getBundleAllocation(discount: Discount, items: CartItem[]): BundleAllocation {
+  const discountsInCents = items.map(() => 0);
+  const components = discount.bundle?.components ?? [];
+  if (discount.type !== 'BUNDLE' || components.length === 0) {
+    return { applications: 0, discountsInCents, usedQuantities: items.map(() => 0) };
+  }
+
+  const available = items.map(item => item.quantity);
+  let applications = 0;
+  const maximumApplications = discount.maximumApplicationsPerOrder ?? Infinity;
+  while (applications < maximumApplications) {
+    const { units, taken, missingComponents } = fillBundle(components, items, available);
+    if (missingComponents.length > 0 || units.length === 0) break;
+    const bundlePriceInCents = units.reduce((sum, unit) => sum + unit.priceInCents, 0);
+    const savingsInCents = getAmountOffInCents(discount.amountType, discount.amount, bundlePriceInCents);
+    if (savingsInCents <= 0) break;
+
+    allocateProportionally(savingsInCents, units.map(unit => unit.priceInCents)).forEach((share, index) => {
+      discountsInCents[units[index].lineIndex] += share;
+    });
+    taken.forEach((quantity, lineIndex) => {
+      available[lineIndex] -= quantity;
+    });
+    applications++;
+  }
+
+  return { applications, discountsInCents, usedQuantities: items.map((item, lineIndex) => item.quantity - available[lineIndex]) };
+}
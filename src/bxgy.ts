@@ -0,0 +1,83 @@
+import { getAmountOffInCents } from "./tiers";
+import type { BuyXGetYAllocation, BuyXGetYBuy, BuyXGetYGet, CartItem, Discount } from "./types";
+
+type Unit = { lineIndex: number; priceInCents: number };
+
+export function matchesBuyXGetYSelector(selector: BuyXGetYBuy | BuyXGetYGet, item: CartItem): boolean {
+  const hasVariants = !!selector.variants && selector.variants.length > 0;
+  const hasCollections = !!selector.collections && selector.collections.length > 0;
+  if (!hasVariants && !hasCollections) return true;
+  if (selector.variants?.includes(item.variantId)) return true;
+  if (selector.collections?.some(id => item.collectionIds.includes(id))) return true;
+  return false;
+}
+
+export function getBuyXGetYUnitDiscount(get: BuyXGetYGet, priceInCents: number): number {
+  switch (get.amountType) {
+    case 'FREE':
+      return priceInCents;
+    default:
+      return getAmountOffInCents(get.amountType, get.amount ?? 0, priceInCents);
+  }
+}
+
+function expandUnits(items: CartItem[], matches: (item: CartItem) => boolean): Unit[] {
+  const units: Unit[] = [];
+  items.forEach((item, lineIndex) => {
+    if (!matches(item)) return;
+    for (let i = 0; i < item.quantity; i++) {
+      units.push({ lineIndex, priceInCents: item.priceInCents });
+    }
+  });
+  return units;
+}
+
+function isBuyRequirementMet(buy: BuyXGetYBuy, quantity: number, spentInCents: number): boolean {
+  const requiredQuantity = buy.quantity ?? (buy.minimumPurchaseInCents ? 0 : 1);
+  return quantity >= requiredQuantity && spentInCents >= (buy.minimumPurchaseInCents ?? 0);
+}
+
+// Buy requirements are filled from the most expensive units, the reward goes to the cheapest remaining ones.
+export function getBuyXGetYAllocation(discount: Discount, items: CartItem[]): BuyXGetYAllocation {
+  const discountsInCents = items.map(() => 0);
+  if (discount.type !== 'BXGY' || !discount.get || discount.get.quantity <= 0) {
+    return { applications: 0, discountsInCents, usedQuantities: items.map(() => 0) };
+  }
+  const buy = discount.buy ?? {};
+  const get = discount.get;
+
+  const buyPool = expandUnits(items, item => matchesBuyXGetYSelector(buy, item)).sort((a, b) => b.priceInCents - a.priceInCents);
+  const getPool = expandUnits(items, item => matchesBuyXGetYSelector(get, item)).sort((a, b) => a.priceInCents - b.priceInCents);
+  const usedPerLine = items.map(() => 0);
+  const isAvailable = (unit: Unit, reserved: Unit[]) =>
+    usedPerLine[unit.lineIndex] + reserved.filter(other => other.lineIndex === unit.lineIndex).length < items[unit.lineIndex].quantity;
+
+  let applications = 0;
+  const maximumApplications = discount.maximumApplicationsPerOrder ?? Infinity;
+  while (applications < maximumApplications) {
+    const buyUnits: Unit[] = [];
+    let spentInCents = 0;
+    for (const unit of buyPool) {
+      if (isBuyRequirementMet(buy, buyUnits.length, spentInCents)) break;
+      if (!isAvailable(unit, buyUnits)) continue;
+      buyUnits.push(unit);
+      spentInCents += unit.priceInCents;
+    }
+    if (!isBuyRequirementMet(buy, buyUnits.length, spentInCents)) break;
+
+    const getUnits: Unit[] = [];
+    for (const unit of getPool) {
+      if (getUnits.length >= get.quantity) break;
+      if (isAvailable(unit, [...buyUnits, ...getUnits])) getUnits.push(unit);
+    }
+    if (getUnits.length === 0) break;
+
+    [...buyUnits, ...getUnits].forEach(unit => usedPerLine[unit.lineIndex]++);
+    getUnits.forEach(unit => {
+      discountsInCents[unit.lineIndex] += getBuyXGetYUnitDiscount(get, unit.priceInCents);
+    });
+    applications++;
+  }
+
+  return { applications, discountsInCents, usedQuantities: usedPerLine };
+}
@@ -0,0 +1,71 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { evaluateDiscounts } from './discount';
+import { findDiscountByCode, generateDiscountCodes, normalizeDiscountCode, UNAMBIGUOUS_CODE_ALPHABET } from './codes';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const TEST_NOW = new Date('2025-06-23T12:00:00Z');
+
+function sequence(values: number[]): () => number {
+  let index = 0;
+  return () => values[index++ % values.length];
+}
+
+describe('normalizeDiscountCode', () => {
+  it('should fold case and strip whitespace', () => {
+    expect(normalizeDiscountCode('  save 10\t')).toBe('SAVE10');
+    expect(normalizeDiscountCode('ｓａｖｅ１０')).toBe('SAVE10');
+  });
+});
+
+describe('findDiscountByCode', () => {
+  const discounts: Discount[] = [
+    { id: 'd_summer', code: 'SUMMER', type: 'ORDER', amountType: 'FIXED', amount: 500, startsAt: TEST_START, isActive: true },
+    { id: 'd_old', code: 'SPRING', type: 'ORDER', amountType: 'FIXED', amount: 500, startsAt: TEST_START, endsAt: new Date('2025-06-23T00:00:00Z'), isActive: true },
+    { id: 'd_paused', code: 'PAUSED', type: 'ORDER', amountType: 'FIXED', amount: 500, startsAt: TEST_START, isActive: false },
+  ];
+
+  it('should find a code regardless of how the shopper typed it', () => {
+    expect(findDiscountByCode(' summer ', discounts, TEST_NOW)).toEqual({ status: 'FOUND', discount: discounts[0] });
+  });
+
+  it('should distinguish unknown, expired and inactive codes', () => {
+    expect(findDiscountByCode('WINTER', discounts, TEST_NOW)).toEqual({ status: 'NOT_FOUND' });
+    expect(findDiscountByCode('spring', discounts, TEST_NOW)).toMatchObject({ status: 'EXPIRED', discount: discounts[1] });
+    expect(findDiscountByCode('paused', discounts, TEST_NOW)).toMatchObject({ status: 'INACTIVE', discount: discounts[2] });
+  });
+});
+
+describe('generateDiscountCodes', () => {
+  const parent: Discount = { id: 'd_influencer', code: 'INFLUENCER', type: 'ORDER', amountType: 'PERCENTAGE', amount: 15, isAutomatic: true, startsAt: TEST_START, isActive: true };
+
+  it('should generate unique single-use children that keep the parent rules', () => {
+    const children = generateDiscountCodes(parent, { count: 3, prefix: 'ann-', length: 4, random: sequence([0, 0, 0, 0, 0, 0, 0, 0, 0.5, 0.5, 0.5, 0.5, 0.99, 0.99, 0.99, 0.99]) });
+
+    expect(children.map(child => child.code)).toEqual(['ANN-AAAA', 'ANN-SSSS', 'ANN-9999']);
+    expect(children[0]).toMatchObject({ id: 'd_influencer:ANN-AAAA', parentId: 'd_influencer', amount: 15, maximumUses: 1, isAutomatic: false });
+  });
+
+  it('should only use unambiguous characters by default', () => {
+    const [child] = generateDiscountCodes(parent, { count: 1, length: 32 });
+    expect(child.code).toMatch(new RegExp(`^[${UNAMBIGUOUS_CODE_ALPHABET}]{32}$`));
+  });
+
+  it('should skip existing codes and fail when the code space is exhausted', () => {
+    const children = generateDiscountCodes(parent, { count: 1, length: 1, alphabet: 'AB', existingCodes: ['a'] });
+    expect(children[0].code).toBe('B');
+    expect(() => generateDiscountCodes(parent, { count: 3, length: 1, alphabet: 'AB' })).toThrow('Could not generate 3 unique codes');
+  });
+
+  it('should reject alphabets that normalization would change', () => {
+    expect(() => generateDiscountCodes(parent, { count: 1, alphabet: 'abc' })).toThrow('distinct uppercase characters');
+    expect(() => generateDiscountCodes(parent, { count: 1, alphabet: 'AB\uFF21' })).toThrow('distinct uppercase characters'); // fullwidth A
+  });
+
+  it('should track usage of each child code separately', () => {
+    const [used, unused] = generateDiscountCodes(parent, { count: 2 });
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 1000 }] };
+    const context: DiscountContext = { now: TEST_NOW, usageGlobal: { [used.code!]: 1 } };
+
+    expect(evaluateDiscounts(cart, [used, unused], undefined, context)).toEqual([unused]);
+  });
+});
@@ -0,0 +1,79 @@
+import { getDateRangeFailures } from "./discount";
+import type { Discount, DiscountCodeGenerationOptions, DiscountCodeLookup } from "./types";
+
+export const UNAMBIGUOUS_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'; // no 0/O, 1/I/L
+
+const MAXIMUM_GENERATION_ATTEMPTS_PER_CODE = 100;
+
+export function normalizeDiscountCode(code: string): string {
+  return code.normalize('NFKC').replace(/\s+/g, '').toUpperCase();
+}
+
+export function findDiscountByCode(code: string, discounts: Discount[], now: Date = new Date()): DiscountCodeLookup {
+  const normalizedCode = normalizeDiscountCode(code);
+  if (!normalizedCode) return { status: 'NOT_FOUND' };
+
+  const matches = discounts.filter(discount => discount.code && normalizeDiscountCode(discount.code) === normalizedCode);
+  if (matches.length === 0) return { status: 'NOT_FOUND' };
+
+  const active = matches.find(discount => getDateRangeFailures(discount, now).length === 0);
+  if (active) return { status: 'FOUND', discount: active };
+
+  const discount = matches[0];
+  const failures = getDateRangeFailures(discount, now);
+  return { status: failures[0].code as 'INACTIVE' | 'NOT_STARTED' | 'EXPIRED' | 'OUTSIDE_SCHEDULE', discount, failures };
+}
+
+// Unbiased index from the platform's cryptographic generator, values past the last whole multiple of size are redrawn.
+function getSecureRandomIndex(size: number): number {
+  const limit = Math.floor(0x100000000 / size) * size;
+  const value = new Uint32Array(1);
+  do {
+    globalThis.crypto.getRandomValues(value);
+  } while (value[0] >= limit);
+  return value[0] % size;
+}
+
+export function generateDiscountCodes(parent: Discount, options: DiscountCodeGenerationOptions): Discount[] {
+  const prefix = options.prefix ? normalizeDiscountCode(options.prefix) : '';
+  const length = options.length ?? 8;
+  const alphabet = options.alphabet ?? UNAMBIGUOUS_CODE_ALPHABET;
+  const random = options.random;
+  const pickIndex = random ? (size: number) => Math.floor(random() * size) : getSecureRandomIndex;
+  const characters = [...alphabet];
+  if (characters.length < 2 || length < 1) {
+    throw new Error('Code generation needs an alphabet of at least 2 characters and a length of at least 1');
+  }
+  // Codes are looked up normalized, so an alphabet that normalization changes would yield duplicate or unmatchable codes.
+  const normalized = characters.map(normalizeDiscountCode);
+  if (new Set(normalized).size !== characters.length || normalized.some((character, index) => character !== characters[index])) {
+    throw new Error('Code generation needs an alphabet of distinct uppercase characters that normalization leaves unchanged');
+  }
+
+  const usedCodes = new Set((options.existingCodes ?? []).map(normalizeDiscountCode));
+  if (parent.code) usedCodes.add(normalizeDiscountCode(parent.code));
+
+  const children: Discount[] = [];
+  let attempts = 0;
+  while (children.length < options.count) {
+    if (attempts++ >= options.count * MAXIMUM_GENERATION_ATTEMPTS_PER_CODE) {
+      throw new Error(`Could not generate ${options.count} unique codes with length ${length}; use a longer code or larger alphabet`);
+    }
+    let randomPart = '';
+    for (let i = 0; i < length; i++) {
+      randomPart += characters[pickIndex(characters.length)];
+    }
+    const code = prefix + randomPart;
+    if (usedCodes.has(code)) continue;
+    usedCodes.add(code);
+    children.push({
+      ...parent,
+      id: `${parent.id}:${code}`,
+      code,
+      parentId: parent.id,
+      isAutomatic: false,
+      maximumUses: 1,
+    });
+  }
+  return children;
+}
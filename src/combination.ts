@@ -0,0 +1,94 @@
+import type { CombinationSearchBudget, Discount, DiscountClass } from "./types";
+
+export const DEFAULT_MAXIMUM_COMBINATIONS = 256;
+export const DEFAULT_MAXIMUM_SEARCH_STEPS = 10000;
+
+export function getDiscountClass(discount: Discount): DiscountClass {
+  switch (discount.type) {
+    case 'ORDER':
+      return 'ORDER';
+    case 'SHIPPING':
+      return 'SHIPPING';
+    default:
+      return 'PRODUCT';
+  }
+}
+
+function allowsCombinationWith(discount: Discount, discountClass: DiscountClass, sameClass: boolean): boolean {
+  const flag = discountClass === 'PRODUCT'
+    ? discount.combineWithProductDiscounts
+    : discountClass === 'ORDER'
+      ? discount.combineWithOrderDiscounts
+      : discount.combineWithShippingDiscounts;
+  // Stacking within a class is opt-in, combining across classes is allowed unless switched off.
+  return sameClass ? flag === true : flag !== false;
+}
+
+export function canCombineDiscounts(a: Discount, b: Discount): boolean {
+  if (a.exclusive || b.exclusive) return false;
+  const classA = getDiscountClass(a);
+  const classB = getDiscountClass(b);
+  const sameClass = classA === classB;
+  return allowsCombinationWith(a, classB, sameClass) && allowsCombinationWith(b, classA, sameClass);
+}
+
+// Non-combinable PRODUCT discounts can still be part of one combination, each line then keeps the best of them.
+export function canShareCombination(a: Discount, b: Discount): boolean {
+  if (a.type === 'PRODUCT' && b.type === 'PRODUCT' && !a.exclusive && !b.exclusive) return true;
+  return canCombineDiscounts(a, b);
+}
+
+export function createSearchBudget(maximumSteps: number = DEFAULT_MAXIMUM_SEARCH_STEPS): CombinationSearchBudget {
+  return { remainingSteps: maximumSteps };
+}
+
+// Bron–Kerbosch with Tomita pivoting. Every node visited spends one step of the budget, which can be shared across searches.
+export function findMaximalCombinations<T>(
+  items: T[],
+  compatible: (a: T, b: T) => boolean,
+  maximumCombinations: number = DEFAULT_MAXIMUM_COMBINATIONS,
+  budget: CombinationSearchBudget = createSearchBudget()
+): { combinations: T[][]; exhaustive: boolean } {
+  const compatibility = items.map(a => items.map(b => a !== b && compatible(a, b)));
+  const combinations: T[][] = [];
+  let exhaustive = true;
+
+  const extend = (current: number[], candidates: number[], excluded: number[]) => {
+    if (combinations.length >= maximumCombinations || budget.remainingSteps <= 0) {
+      exhaustive = false;
+      return;
+    }
+    budget.remainingSteps--;
+    if (candidates.length === 0 && excluded.length === 0) {
+      combinations.push(current.map(index => items[index]));
+      return;
+    }
+    if (candidates.length === 0) return;
+
+    // Every maximal combination holds the pivot or something incompatible with it, so only those need a branch.
+    const neighbours = (index: number) => candidates.filter(other => compatibility[index][other]).length;
+    const pivot = [...candidates, ...excluded].reduce((best, index) => neighbours(index) > neighbours(best) ? index : best);
+    let remaining = candidates;
+    let seen = excluded;
+    for (const index of candidates.filter(other => !compatibility[pivot][other])) {
+      extend(
+        [...current, index],
+        remaining.filter(other => compatibility[index][other]),
+        seen.filter(other => compatibility[index][other])
+      );
+      remaining = remaining.filter(other => other !== index);
+      seen = [...seen, index];
+    }
+  };
+
+  extend([], items.map((_, index) => index), []);
+  // Out of budget before anything was found: one greedy combination keeps callers working, just not optimally.
+  if (combinations.length === 0 && items.length > 0 && !exhaustive) {
+    const greedy: number[] = [];
+    items.forEach((_, index) => {
+      if (greedy.every(other => compatibility[index][other])) greedy.push(index);
+    });
+    combinations.push(greedy.map(index => items[index]));
+  }
+  return { combinations, exhaustive };
+}
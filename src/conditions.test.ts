@@ -0,0 +1,91 @@
+import type { Cart, Discount, DiscountCondition, DiscountContext } from './types';
+import { applyDiscounts, explainDiscountEligibility } from './discount';
+import { describeCondition } from './conditions';
+import { parseDiscount, serializeDiscount } from './serialization';
+import { calculateTotals } from './totals';
+import { validateDiscount } from './validation';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const merchandisingRule: DiscountCondition = {
+  type: 'AND',
+  conditions: [
+    { type: 'OR', conditions: [{ type: 'ITEM_COLLECTION', collectionIds: ['c_a'] }, { type: 'ITEM_COLLECTION', collectionIds: ['c_b'] }] },
+    { type: 'CART_QUANTITY', minimum: 3 },
+    { type: 'NOT', condition: { type: 'ITEM_VARIANT', variantIds: ['v_z'] } },
+    { type: 'COUNTRY', countryCodes: ['DE', 'FR'] },
+  ],
+};
+
+const discount: Discount = {
+  id: 'd_rule', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 20, applyToAllProducts: true,
+  startsAt: TEST_START, isActive: true, condition: merchandisingRule,
+};
+
+const cart: Cart = { storeId: 's1', shippingCountryCode: 'DE', items: [
+  { variantId: 'v_a', collectionIds: ['c_a'], quantity: 1, priceInCents: 1000 },
+  { variantId: 'v_z', collectionIds: ['c_b'], quantity: 1, priceInCents: 2000 },
+  { variantId: 'v_c', collectionIds: ['c_c'], quantity: 1, priceInCents: 500 },
+] };
+
+describe('Discount conditions', () => {
+  it('should discount only the items that satisfy the whole tree', () => {
+    expect(explainDiscountEligibility(cart, discount, undefined, mockContext).eligible).toBe(true);
+
+    const { allocations } = applyDiscounts(cart, [discount]);
+    expect(allocations.map(allocation => [allocation.variantId, allocation.amountInCents])).toEqual([['v_a', 200]]);
+    expect(calculateTotals(cart, [discount], undefined, mockContext).productDiscountInCents).toBe(200);
+  });
+
+  it('should explain which branch failed', () => {
+    const usCart: Cart = { ...cart, shippingCountryCode: 'US' };
+    const [failure] = explainDiscountEligibility(usCart, discount, undefined, mockContext).failures;
+    expect(failure).toMatchObject({ code: 'CONDITION_NOT_MET', message: 'Requires shipping to DE or FR' });
+    expect(failure.code === 'CONDITION_NOT_MET' && failure.conditionFailures.map(entry => entry.path)).toEqual(['condition.conditions.3']);
+
+    const excludedCart: Cart = { ...cart, items: [{ ...cart.items[1], quantity: 3 }] };
+    expect(explainDiscountEligibility(excludedCart, discount, undefined, mockContext).failures).toEqual([
+      expect.objectContaining({ message: 'Excluded by variant v_z' }),
+    ]);
+  });
+
+  it('should read customer and context attributes', () => {
+    const posOffer: Discount = {
+      id: 'd_pos', type: 'ORDER', amountType: 'FIXED', amount: 500, startsAt: TEST_START, isActive: true,
+      condition: { type: 'OR', conditions: [
+        { type: 'CONTEXT_ATTRIBUTE', key: 'channel', values: ['pos'] },
+        { type: 'CUSTOMER_TAG', tags: ['vip'] },
+      ] },
+    };
+
+    expect(explainDiscountEligibility(cart, posOffer, undefined, { ...mockContext, attributes: { channel: 'pos' } }).eligible).toBe(true);
+    expect(explainDiscountEligibility(cart, posOffer, { id: 'c1', tags: ['VIP'] }, mockContext).eligible).toBe(true);
+    expect(explainDiscountEligibility(cart, posOffer, { id: 'c2' }, mockContext).failures[0].message)
+      .toBe('Requires channel pos; Requires a customer tagged vip');
+  });
+
+  it('should measure tiers on the items that satisfy item conditions', () => {
+    const premiumMultiBuy: Discount = {
+      id: 'd_premium', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 0, applyToAllProducts: true, tiers: [{ minimumQuantity: 3, amount: 20 }],
+      condition: { type: 'ITEM_PRICE', minimumInCents: 2000 }, startsAt: TEST_START, isActive: true,
+    };
+    const mixedCart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_cheap', collectionIds: [], quantity: 5, priceInCents: 500 },
+      { variantId: 'v_premium', collectionIds: [], quantity: 1, priceInCents: 3000 },
+    ] };
+
+    expect(explainDiscountEligibility(mixedCart, premiumMultiBuy, undefined, mockContext).failures)
+      .toEqual([expect.objectContaining({ code: 'TIER_NOT_MET', remainingQuantity: 2 })]);
+  });
+
+  it('should survive serialization and reject malformed trees', () => {
+    expect(parseDiscount(JSON.stringify(serializeDiscount(discount))).condition).toEqual(merchandisingRule);
+    expect(describeCondition(merchandisingRule)).toBe(
+      '((an item in collection c_a or an item in collection c_b) and a cart quantity of at least 3 and not variant v_z and shipping to DE or FR)'
+    );
+
+    const malformed: Discount = { ...discount, condition: { type: 'AND', conditions: [{ type: 'CART_SUBTOTAL', minimumInCents: 500, maximumInCents: 100 }, { type: 'OR', conditions: [] }] } };
+    expect(validateDiscount(malformed).errors.map(issue => issue.field)).toEqual(['condition.conditions.0', 'condition.conditions.1.conditions']);
+  });
+});
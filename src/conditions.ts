@@ -0,0 +1,141 @@
+import type { ConditionFailure, ConditionInput, DiscountCondition } from "./types";
+
+const ITEM_CONDITION_TYPES = ['ITEM_VARIANT', 'ITEM_COLLECTION', 'ITEM_PRICE', 'ITEM_QUANTITY'];
+
+function isInRange(value: number, minimum?: number, maximum?: number): boolean {
+  return value >= (minimum ?? -Infinity) && value <= (maximum ?? Infinity);
+}
+
+function describeRange(minimum?: number, maximum?: number, unit = ''): string {
+  if (minimum !== undefined && maximum !== undefined) return `between ${minimum}${unit} and ${maximum}${unit}`;
+  if (minimum !== undefined) return `of at least ${minimum}${unit}`;
+  return `of at most ${maximum}${unit}`;
+}
+
+export function describeCondition(condition: DiscountCondition): string {
+  switch (condition.type) {
+    case 'AND':
+      return `(${condition.conditions.map(describeCondition).join(' and ')})`;
+    case 'OR':
+      return `(${condition.conditions.map(describeCondition).join(' or ')})`;
+    case 'NOT':
+      return `not ${describeCondition(condition.condition)}`;
+    case 'CART_SUBTOTAL':
+      return `a cart subtotal ${describeRange(condition.minimumInCents, condition.maximumInCents, ' cents')}`;
+    case 'CART_QUANTITY':
+      return `a cart quantity ${describeRange(condition.minimum, condition.maximum)}`;
+    case 'ITEM_VARIANT':
+      return `variant ${condition.variantIds.join(' or ')}`;
+    case 'ITEM_COLLECTION':
+      return `an item in collection ${condition.collectionIds.join(' or ')}`;
+    case 'ITEM_PRICE':
+      return `an item price ${describeRange(condition.minimumInCents, condition.maximumInCents, ' cents')}`;
+    case 'ITEM_QUANTITY':
+      return `an item quantity ${describeRange(condition.minimum, condition.maximum)}`;
+    case 'CUSTOMER_TAG':
+      return `a customer tagged ${condition.tags.join(' or ')}`;
+    case 'CUSTOMER_ORDER_COUNT':
+      return `a customer order count ${describeRange(condition.minimum, condition.maximum)}`;
+    case 'COUNTRY':
+      return `shipping to ${condition.countryCodes.join(' or ')}`;
+    case 'DATE_RANGE':
+      return `a date ${[condition.startsAt && `from ${condition.startsAt}`, condition.endsAt && `until ${condition.endsAt}`].filter(Boolean).join(' ')}`;
+    case 'CONTEXT_ATTRIBUTE':
+      return `${condition.key} ${condition.values.join(' or ')}`;
+  }
+}
+
+function matchesLeaf(condition: DiscountCondition, { cart, item, customer, context }: ConditionInput): boolean {
+  switch (condition.type) {
+    case 'CART_SUBTOTAL':
+      return isInRange(cart.items.reduce((sum, cartItem) => sum + cartItem.priceInCents * cartItem.quantity, 0), condition.minimumInCents, condition.maximumInCents);
+    case 'CART_QUANTITY':
+      return isInRange(cart.items.reduce((sum, cartItem) => sum + cartItem.quantity, 0), condition.minimum, condition.maximum);
+    case 'ITEM_VARIANT':
+      return !!item && condition.variantIds.includes(item.variantId);
+    case 'ITEM_COLLECTION':
+      return !!item && condition.collectionIds.some(id => item.collectionIds.includes(id));
+    case 'ITEM_PRICE':
+      return !!item && isInRange(item.priceInCents, condition.minimumInCents, condition.maximumInCents);
+    case 'ITEM_QUANTITY':
+      return !!item && isInRange(item.quantity, condition.minimum, condition.maximum);
+    case 'CUSTOMER_TAG': {
+      const customerTags = (customer?.tags ?? []).map(tag => tag.toLowerCase());
+      return condition.tags.some(tag => customerTags.includes(tag.toLowerCase()));
+    }
+    case 'CUSTOMER_ORDER_COUNT':
+      return !!customer && isInRange(customer.orderCount ?? 0, condition.minimum, condition.maximum);
+    case 'COUNTRY': {
+      const countryCode = cart.shippingCountryCode ?? context?.countryCode;
+      return !!countryCode && condition.countryCodes.includes(countryCode);
+    }
+    case 'DATE_RANGE': {
+      const now = (context?.now ?? new Date()).getTime();
+      return (!condition.startsAt || now >= new Date(condition.startsAt).getTime()) &&
+        (!condition.endsAt || now < new Date(condition.endsAt).getTime());
+    }
+    case 'CONTEXT_ATTRIBUTE': {
+      const value = context?.attributes?.[condition.key];
+      return value !== undefined && condition.values.includes(value);
+    }
+    default:
+      return false;
+  }
+}
+
+// Evaluates one item (or none) against the tree; failures name the leaves, or NOT branches, that made it fail.
+export function evaluateCondition(
+  condition: DiscountCondition,
+  input: ConditionInput,
+  path = 'condition'
+): { passed: boolean; failures: ConditionFailure[] } {
+  switch (condition.type) {
+    case 'AND': {
+      const results = condition.conditions.map((child, index) => evaluateCondition(child, input, `${path}.conditions.${index}`));
+      return { passed: results.every(result => result.passed), failures: results.flatMap(result => result.failures) };
+    }
+    case 'OR': {
+      const results = condition.conditions.map((child, index) => evaluateCondition(child, input, `${path}.conditions.${index}`));
+      const passed = results.length === 0 || results.some(result => result.passed);
+      return { passed, failures: passed ? [] : results.flatMap(result => result.failures) };
+    }
+    case 'NOT': {
+      const passed = !evaluateCondition(condition.condition, input, `${path}.condition`).passed;
+      return { passed, failures: passed ? [] : [{ path, type: 'NOT', message: `Excluded by ${describeCondition(condition.condition)}` }] };
+    }
+    default: {
+      const passed = matchesLeaf(condition, input);
+      return { passed, failures: passed ? [] : [{ path, type: condition.type, message: `Requires ${describeCondition(condition)}` }] };
+    }
+  }
+}
+
+export function hasItemConditions(condition: DiscountCondition): boolean {
+  switch (condition.type) {
+    case 'AND':
+    case 'OR':
+      return condition.conditions.some(hasItemConditions);
+    case 'NOT':
+      return hasItemConditions(condition.condition);
+    default:
+      return ITEM_CONDITION_TYPES.includes(condition.type);
+  }
+}
+
+// Item predicates hold for the cart when one of the items satisfies the whole tree; otherwise the closest item explains why.
+export function evaluateCartCondition(
+  condition: DiscountCondition,
+  input: ConditionInput,
+  items: ConditionInput['cart']['items'] = input.cart.items
+): { passed: boolean; failures: ConditionFailure[] } {
+  if (!hasItemConditions(condition) || items.length === 0) {
+    return evaluateCondition(condition, { ...input, item: undefined });
+  }
+  let closest: { passed: boolean; failures: ConditionFailure[] } | null = null;
+  for (const item of items) {
+    const result = evaluateCondition(condition, { ...input, item });
+    if (result.passed) return result;
+    if (!closest || result.failures.length < closest.failures.length) closest = result;
+  }
+  return closest!;
+}
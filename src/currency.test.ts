@@ -0,0 +1,92 @@
+import type { Cart, Customer, Discount, DiscountContext } from './types';
+import { applyDiscounts, calculateDiscountAmount, explainDiscountEligibility } from './discount';
+import { convertMinorUnits, getCurrencyMinorUnits, localizeDiscount } from './currency';
+import { calculateTotals } from './totals';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const exchangeRates = { USD: 1, EUR: 0.9, JPY: 155, KWD: 0.31 };
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z'), exchangeRates };
+
+const fiveOff: Discount = {
+  id: 'd_five', type: 'ORDER', amountType: 'FIXED', amount: 500, currency: 'USD',
+  minimumPurchaseInCents: 5000, startsAt: TEST_START, isActive: true,
+};
+
+describe('convertMinorUnits', () => {
+  it('should respect the minor units of each currency', () => {
+    expect(getCurrencyMinorUnits('JPY')).toBe(0);
+    expect(getCurrencyMinorUnits('KWD')).toBe(3);
+    expect(getCurrencyMinorUnits('EUR')).toBe(2);
+    expect(convertMinorUnits(500, 'USD', 'JPY', exchangeRates)).toBe(775);
+    expect(convertMinorUnits(500, 'USD', 'KWD', exchangeRates)).toBe(1550);
+    expect(convertMinorUnits(1000, 'EUR', 'USD', exchangeRates)).toBe(1111);
+    expect(convertMinorUnits(500, 'USD', 'GBP', exchangeRates)).toBeNull();
+  });
+});
+
+describe('localizeDiscount', () => {
+  it('should prefer explicit per-currency amounts over converted ones', () => {
+    const discount: Discount = { ...fiveOff, amountsByCurrency: { JPY: { amount: 700 } } };
+
+    expect(localizeDiscount(discount, 'JPY', exchangeRates)).toMatchObject({ currency: 'JPY', amount: 700, minimumPurchaseInCents: 7750 });
+    expect(localizeDiscount(discount, 'JPY')).toBeNull();
+    expect(localizeDiscount(discount, 'USD')).toBe(discount);
+  });
+
+  it('should leave percentage discounts without thresholds untouched', () => {
+    const discount: Discount = { id: 'd_pct', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, currency: 'USD', startsAt: TEST_START, isActive: true };
+
+    expect(localizeDiscount(discount, 'JPY')).toBe(discount);
+  });
+});
+
+describe('Multi-currency carts', () => {
+  const yenCart: Cart = { storeId: 's_jp', currency: 'JPY', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 8000 }] };
+
+  it('should convert fixed amounts and thresholds into the cart currency', () => {
+    expect(explainDiscountEligibility(yenCart, fiveOff, undefined, mockContext).eligible).toBe(true);
+
+    const totals = calculateTotals(yenCart, [fiveOff], undefined, mockContext);
+    expect(totals.orderDiscountInCents).toBe(775);
+    expect(totals.appliedDiscounts).toEqual([fiveOff]);
+  });
+
+  it('should reject a fixed discount that has no amount in the cart currency', () => {
+    const evaluation = explainDiscountEligibility(yenCart, fiveOff, undefined, { now: mockContext.now });
+
+    expect(evaluation.failures).toEqual([expect.objectContaining({ code: 'CURRENCY_MISMATCH', currency: 'USD', cartCurrency: 'JPY' })]);
+    expect(applyDiscounts(yenCart, [fiveOff]).appliedDiscounts).toEqual([]);
+  });
+
+  it('should convert with the context rates when calculating an amount directly', () => {
+    expect(calculateDiscountAmount(fiveOff, yenCart, undefined, undefined, mockContext)).toBe(775);
+    expect(calculateDiscountAmount(fiveOff, yenCart)).toBe(0);
+  });
+
+  it('should convert the lifetime spend a customer segment requires', () => {
+    const loyalOnly: Discount = {
+      id: 'd_loyal', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, currency: 'USD',
+      customerSegment: { minimumLifetimeSpendInCents: 10000 }, startsAt: TEST_START, isActive: true,
+    };
+    const customer: Customer = { id: 'c_jp', lifetimeSpendInCents: 12000 };
+
+    expect(localizeDiscount(loyalOnly, 'JPY', exchangeRates)?.customerSegment?.minimumLifetimeSpendInCents).toBe(15500);
+    expect(explainDiscountEligibility(yenCart, loyalOnly, customer, mockContext).failures)
+      .toEqual([expect.objectContaining({ code: 'CUSTOMER_SEGMENT_NOT_MET' })]);
+    expect(explainDiscountEligibility(yenCart, loyalOnly, customer, { now: mockContext.now }).failures)
+      .toEqual([expect.objectContaining({ code: 'CURRENCY_MISMATCH' })]);
+  });
+
+  it('should convert the amounts a condition compares against', () => {
+    const overFifty: Discount = {
+      id: 'd_over_fifty', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, currency: 'USD',
+      condition: { type: 'CART_SUBTOTAL', minimumInCents: 5000 }, startsAt: TEST_START, isActive: true,
+    };
+    const smallYenCart: Cart = { storeId: 's_jp', currency: 'JPY', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 5000 }] };
+    const context: DiscountContext = { now: mockContext.now, exchangeRates: { USD: 1, JPY: 150 } };
+
+    expect(localizeDiscount(overFifty, 'JPY', context.exchangeRates)?.condition).toEqual({ type: 'CART_SUBTOTAL', minimumInCents: 7500, maximumInCents: undefined });
+    expect(explainDiscountEligibility(smallYenCart, overFifty, undefined, context).failures)
+      .toEqual([expect.objectContaining({ code: 'CONDITION_NOT_MET' })]);
+  });
+});
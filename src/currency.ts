@@ -0,0 +1,114 @@
+import type { Discount, DiscountCondition, ExchangeRates } from "./types";
+
+const ZERO_DECIMAL_CURRENCIES = ['BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'];
+const THREE_DECIMAL_CURRENCIES = ['BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND'];
+
+export function getCurrencyMinorUnits(currency: string): number {
+  const code = currency.toUpperCase();
+  if (ZERO_DECIMAL_CURRENCIES.includes(code)) return 0;
+  if (THREE_DECIMAL_CURRENCIES.includes(code)) return 3;
+  return 2;
+}
+
+// Converts between minor units, so $5.00 (500) becomes ¥775 (775) rather than 77500.
+export function convertMinorUnits(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  exchangeRates?: ExchangeRates
+): number | null {
+  if (fromCurrency === toCurrency) return amount;
+  const fromRate = exchangeRates?.[fromCurrency];
+  const toRate = exchangeRates?.[toCurrency];
+  if (!fromRate || !toRate) return null;
+  const majorUnits = amount / 10 ** getCurrencyMinorUnits(fromCurrency);
+  return Math.round(majorUnits * (toRate / fromRate) * 10 ** getCurrencyMinorUnits(toCurrency));
+}
+
+function isMoneyAmount(amountType?: string): boolean {
+  return amountType === 'FIXED' || amountType === 'FIXED_PRICE';
+}
+
+function hasConditionAmounts(condition?: DiscountCondition): boolean {
+  if (!condition) return false;
+  switch (condition.type) {
+    case 'AND':
+    case 'OR':
+      return condition.conditions.some(hasConditionAmounts);
+    case 'NOT':
+      return hasConditionAmounts(condition.condition);
+    case 'CART_SUBTOTAL':
+    case 'ITEM_PRICE':
+      return condition.minimumInCents !== undefined || condition.maximumInCents !== undefined;
+    default:
+      return false;
+  }
+}
+
+function localizeCondition(condition: DiscountCondition, convert: (amount?: number) => number | undefined): DiscountCondition {
+  switch (condition.type) {
+    case 'AND':
+    case 'OR':
+      return { ...condition, conditions: condition.conditions.map(nested => localizeCondition(nested, convert)) };
+    case 'NOT':
+      return { ...condition, condition: localizeCondition(condition.condition, convert) };
+    case 'CART_SUBTOTAL':
+    case 'ITEM_PRICE':
+      return { ...condition, minimumInCents: convert(condition.minimumInCents), maximumInCents: convert(condition.maximumInCents) };
+    default:
+      return condition;
+  }
+}
+
+export function isCurrencyNeutral(discount: Discount): boolean {
+  const usesFixedAmount = isMoneyAmount(discount.amountType) ||
+    discount.tiers?.some(tier => isMoneyAmount(tier.amountType ?? discount.amountType) || tier.minimumPurchaseInCents) ||
+    isMoneyAmount(discount.get?.amountType);
+  const usesThresholds = discount.minimumPurchaseInCents || discount.maximumAmountForShippingInCents ||
+    discount.maximumDiscountInCents || discount.maximumShippingRateInCents || discount.buy?.minimumPurchaseInCents ||
+    discount.customerSegment?.minimumLifetimeSpendInCents || hasConditionAmounts(discount.condition);
+  return !usesFixedAmount && !usesThresholds;
+}
+
+// Returns the discount with every money field expressed in the given currency, or null when it cannot be converted.
+export function localizeDiscount(discount: Discount, currency?: string, exchangeRates?: ExchangeRates): Discount | null {
+  if (!currency || !discount.currency || discount.currency === currency || isCurrencyNeutral(discount)) {
+    return discount;
+  }
+  const fromCurrency = discount.currency;
+  const overrides = discount.amountsByCurrency?.[currency] ?? {};
+  let convertible = true;
+  const convert = (amount: number | undefined, override?: number): number | undefined => {
+    if (override !== undefined) return override;
+    if (amount === undefined) return undefined;
+    const converted = convertMinorUnits(amount, fromCurrency, currency, exchangeRates);
+    if (converted === null) {
+      convertible = false;
+      return amount;
+    }
+    return converted;
+  };
+
+  const localized: Discount = {
+    ...discount,
+    currency,
+    amount: isMoneyAmount(discount.amountType) ? convert(discount.amount, overrides.amount)! : discount.amount,
+    minimumPurchaseInCents: convert(discount.minimumPurchaseInCents, overrides.minimumPurchaseInCents),
+    maximumAmountForShippingInCents: convert(discount.maximumAmountForShippingInCents, overrides.maximumAmountForShippingInCents),
+    maximumDiscountInCents: convert(discount.maximumDiscountInCents, overrides.maximumDiscountInCents),
+    maximumShippingRateInCents: convert(discount.maximumShippingRateInCents, overrides.maximumShippingRateInCents),
+    customerSegment: discount.customerSegment && {
+      ...discount.customerSegment,
+      minimumLifetimeSpendInCents: convert(discount.customerSegment.minimumLifetimeSpendInCents, overrides.minimumLifetimeSpendInCents),
+    },
+    tiers: discount.tiers?.map(tier => ({
+      ...tier,
+      amount: isMoneyAmount(tier.amountType ?? discount.amountType) ? convert(tier.amount)! : tier.amount,
+      minimumPurchaseInCents: convert(tier.minimumPurchaseInCents),
+    })),
+    buy: discount.buy && { ...discount.buy, minimumPurchaseInCents: convert(discount.buy.minimumPurchaseInCents) },
+    get: discount.get && { ...discount.get, amount: isMoneyAmount(discount.get.amountType) ? convert(discount.get.amount) : discount.get.amount },
+    condition: discount.condition && localizeCondition(discount.condition, amount => convert(amount)),
+  };
+  return convertible ? localized : null;
+}
@@ -12,7 +12,11 @@ import {
   resolveStripeCompatibleDiscounts,
   previewDiscount,
   calculateDiscountAmount,
+  evaluateDiscountsWithReasons,
+  getDiscountSummary,
+  isItemEligibleForProductDiscount,
 } from './discount';
+import { sumAllocations } from './allocation';
 
 const TEST_START = new Date('2025-06-22T00:00:00Z');
 const TEST_END = new Date('2025-06-24T00:00:00Z');
@@ -280,4 +284,446 @@ describe('Additional Validation and Calculation Scenarios', () => {
     expect(result.orderLevelDiscountInCents).toBeUndefined(); 
     expect(result.shippingDiscountInCents).toBeUndefined(); 
   });
-});
\ No newline at end of file
+});
+
+describe('Eligibility Explanation Scenarios', () => {
+  it('Scenario 19: evaluateDiscountsWithReasons - should report the minimum purchase shortfall', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 3800 }] };
+    const discount: Discount = { id: 'd_min', type: 'ORDER', amountType: 'FIXED', amount: 500, minimumPurchaseInCents: 5000, startsAt: TEST_START, isActive: true };
+
+    const [evaluation] = evaluateDiscountsWithReasons(cart, [discount], mockCustomer, mockContext);
+
+    expect(evaluation.eligible).toBe(false);
+    expect(evaluation.failures).toHaveLength(1);
+    expect(evaluation.failures[0]).toMatchObject({ check: 'meetsCartTotalRequirements', code: 'MINIMUM_PURCHASE_NOT_MET', shortfallInCents: 1200 });
+  });
+
+  it('Scenario 20: evaluateDiscountsWithReasons - should collect every failed check with its details', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 1000 }], shippingCountryCode: 'CA' };
+    const discount: Discount = { id: 'd_many', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, variants: ['v2'], minimumQuantity: 3, countryCodes: ['US'], startsAt: TEST_START, endsAt: new Date('2025-06-23T00:00:00Z'), isActive: true };
+
+    const [evaluation] = evaluateDiscountsWithReasons(cart, [discount], mockCustomer, mockContext);
+
+    expect(evaluation.failures.map(failure => failure.code)).toEqual(['EXPIRED', 'MINIMUM_QUANTITY_NOT_MET', 'COUNTRY_NOT_ELIGIBLE', 'NO_ELIGIBLE_ITEMS']);
+    expect(evaluation.failures[0]).toMatchObject({ endsAt: new Date('2025-06-23T00:00:00Z') });
+    expect(evaluation.failures[1]).toMatchObject({ remainingQuantity: 2 });
+  });
+
+  it('Scenario 21: previewDiscount and getDiscountSummary - should carry the failed checks', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 5000 }] };
+    const discount: Discount = { id: 'd_welcome', code: 'WELCOME10', type: 'ORDER', amountType: 'FIXED', amount: 1000, limitOncePerCustomer: true, startsAt: TEST_START, isActive: true };
+    const contextWithHistory: DiscountContext = { ...mockContext, usageByCustomer: { 'WELCOME10': 1 } };
+
+    const preview = previewDiscount(cart, discount, mockCustomer, contextWithHistory);
+    expect(preview.canApply).toBe(false);
+    expect(preview.failures[0]).toMatchObject({ code: 'CUSTOMER_USAGE_LIMIT_REACHED', usageCount: 1, maximumUses: 1 });
+
+    const summary = getDiscountSummary(cart, [discount], mockCustomer, contextWithHistory);
+    expect(summary.discountBreakdown[0].eligible).toBe(false);
+    expect(summary.discountBreakdown[0].failures).toEqual(preview.failures);
+  });
+});
+
+describe('Buy X Get Y Scenarios', () => {
+  it('Scenario 22: should make the cheapest unit free in every qualifying set of "buy 2, get 1 free"', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_candle_l', collectionIds: ['c_candles'], quantity: 2, priceInCents: 3000 },
+      { variantId: 'v_candle_m', collectionIds: ['c_candles'], quantity: 2, priceInCents: 2000 },
+      { variantId: 'v_candle_s', collectionIds: ['c_candles'], quantity: 2, priceInCents: 1000 },
+    ] };
+    const discount: Discount = { id: 'd_b2g1', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { collections: ['c_candles'], quantity: 2 }, get: { collections: ['c_candles'], quantity: 1, amountType: 'FREE' }, startsAt: TEST_START, isActive: true };
+
+    const validDiscounts = evaluateDiscounts(cart, [discount], mockCustomer, mockContext);
+    const result = applyDiscounts(cart, validDiscounts);
+
+    expect(result.buyXGetYDiscountInCents).toBe(2000);
+    expect(result.appliedDiscounts).toEqual([discount]);
+  });
+
+  it('Scenario 23: should discount the reward item by percentage and stop at the application cap', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_mug', collectionIds: [], quantity: 3, priceInCents: 2000 },
+      { variantId: 'v_coaster', collectionIds: [], quantity: 3, priceInCents: 800 },
+    ] };
+    const discount: Discount = { id: 'd_mug_coaster', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { variants: ['v_mug'], quantity: 1 }, get: { variants: ['v_coaster'], quantity: 1, amountType: 'PERCENTAGE', amount: 50 }, maximumApplicationsPerOrder: 2, startsAt: TEST_START, isActive: true };
+
+    expect(calculateDiscountAmount(discount, cart)).toBe(800);
+
+    const preview = previewDiscount(cart, discount, mockCustomer, mockContext);
+    expect(preview.buyXGetYDiscountInCents).toBe(800);
+  });
+
+  it('Scenario 24: should explain why a buy X get Y offer does not apply yet', () => {
+    const discount: Discount = { id: 'd_b2g1', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { variants: ['v1'], quantity: 2 }, get: { variants: ['v1'], quantity: 1, amountType: 'FREE' }, startsAt: TEST_START, isActive: true };
+
+    const cartWithOne: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 1000 }] };
+    const [notEnough] = evaluateDiscountsWithReasons(cartWithOne, [discount], mockCustomer, mockContext);
+    expect(notEnough.failures).toEqual([expect.objectContaining({ code: 'BUY_REQUIREMENT_NOT_MET', remainingQuantity: 1 })]);
+
+    const cartWithTwo: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 2, priceInCents: 1000 }] };
+    const [noReward] = evaluateDiscountsWithReasons(cartWithTwo, [discount], mockCustomer, mockContext);
+    expect(noReward.failures).toEqual([expect.objectContaining({ code: 'NO_ELIGIBLE_GET_ITEMS' })]);
+
+    const cartWithThree: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 3, priceInCents: 1000 }] };
+    const summary = getDiscountSummary(cartWithThree, [discount], mockCustomer, mockContext);
+    expect(summary.buyXGetYDiscountAmount).toBe(1000);
+    expect(summary.totalDiscountAmount).toBe(1000);
+  });
+});
+
+describe('Tiered Discount Scenarios', () => {
+  const spendTiers: Discount = { id: 'd_spend_more', type: 'ORDER', amountType: 'PERCENTAGE', amount: 0, tiers: [
+    { minimumPurchaseInCents: 20000, amount: 20 },
+    { minimumPurchaseInCents: 5000, amount: 10 },
+    { minimumPurchaseInCents: 10000, amount: 15 },
+  ], startsAt: TEST_START, isActive: true };
+
+  it('Scenario 25: should apply the highest spend tier reached and report the next one', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 12000 }] };
+
+    const validDiscounts = evaluateDiscounts(cart, [spendTiers], mockCustomer, mockContext);
+    const result = applyDiscounts(cart, validDiscounts);
+
+    expect(result.orderLevelDiscountInCents).toBe(1800);
+    expect(result.tierProgress[0]).toMatchObject({ currentTier: { amount: 15 }, nextTier: { amount: 20 }, amountToNextTierInCents: 8000 });
+  });
+
+  it('Scenario 26: should reject a tiered discount below its lowest tier with the shortfall', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 4200 }] };
+
+    const preview = previewDiscount(cart, spendTiers, mockCustomer, mockContext);
+
+    expect(preview.canApply).toBe(false);
+    expect(preview.failures).toEqual([expect.objectContaining({ code: 'TIER_NOT_MET', shortfallInCents: 800 })]);
+    expect(preview.tierProgress).toMatchObject({ currentTier: null, nextTier: { amount: 10 } });
+  });
+
+  it('Scenario 27: should apply per-line quantity breaks to a product discount', () => {
+    const discount: Discount = { id: 'd_bulk', type: 'PRODUCT', amountType: 'FIXED', amount: 0, variants: ['v_soap'], tiers: [{ minimumQuantity: 5, amount: 200 }, { minimumQuantity: 10, amount: 300 }], startsAt: TEST_START, isActive: true };
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v_soap', collectionIds: [], quantity: 6, priceInCents: 1000 }] };
+
+    const validDiscounts = evaluateDiscounts(cart, [discount], mockCustomer, mockContext);
+    const result = applyDiscounts(cart, validDiscounts);
+
+    expect(result.updatedCartItems[0].priceInCents).toBe(800);
+    expect(calculateDiscountAmount(discount, cart)).toBe(1200);
+    expect(result.tierProgress[0]).toMatchObject({ nextTier: { amount: 300 }, quantityToNextTier: 4 });
+  });
+});
+
+describe('Stacking Scenarios', () => {
+  const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: ['c_sale'], quantity: 1, priceInCents: 10000 }], shippingInCents: 1000 };
+
+  it('Scenario 28: should stack combinable order discounts in priority order', () => {
+    const percentOff: Discount = { id: 'd_pct', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, combineWithOrderDiscounts: true, priority: 2, startsAt: TEST_START, isActive: true };
+    const fixedOff: Discount = { id: 'd_fixed', type: 'ORDER', amountType: 'FIXED', amount: 500, combineWithOrderDiscounts: true, priority: 1, startsAt: TEST_START, isActive: true };
+
+    const sequential = applyDiscounts(cart, [percentOff, fixedOff]);
+    expect(sequential.orderLevelDiscountInCents).toBe(500 + 950);
+    expect(sequential.appliedDiscounts.map(d => d.id)).toEqual(['d_fixed', 'd_pct']);
+
+    const onOriginalPrice = applyDiscounts(cart, [percentOff, fixedOff], { stackingMode: 'ORIGINAL_PRICE' });
+    expect(onOriginalPrice.orderLevelDiscountInCents).toBe(1500);
+  });
+
+  it('Scenario 29: should pick only the best order discount when they do not opt in to stacking', () => {
+    const discounts: Discount[] = [
+      { id: 'd_pct', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, startsAt: TEST_START, isActive: true },
+      { id: 'd_fixed', type: 'ORDER', amountType: 'FIXED', amount: 1200, combineWithOrderDiscounts: true, startsAt: TEST_START, isActive: true },
+    ];
+
+    const result = applyDiscounts(cart, discounts);
+
+    expect(result.orderLevelDiscountInCents).toBe(1200);
+    expect(result.appliedDiscounts.map(d => d.id)).toEqual(['d_fixed']);
+  });
+
+  it('Scenario 30: should stack product discounts on the same item only when both allow it', () => {
+    const discounts: Discount[] = [
+      { id: 'd_sale', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 20, collections: ['c_sale'], combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_member', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, applyToAllProducts: true, combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true },
+    ];
+
+    const result = applyDiscounts(cart, discounts);
+
+    expect(result.updatedCartItems[0].priceInCents).toBe(7200);
+    expect(result.appliedDiscounts).toHaveLength(2);
+  });
+
+  it('Scenario 31: should let an exclusive discount win only when it saves the customer more', () => {
+    const product: Discount = { id: 'd_prod', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, applyToAllProducts: true, startsAt: TEST_START, isActive: true };
+    const shipping: Discount = { id: 'd_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, startsAt: TEST_START, isActive: true };
+
+    const smallExclusive: Discount = { id: 'd_excl_small', code: 'ONLYME', type: 'ORDER', amountType: 'FIXED', amount: 1500, exclusive: true, startsAt: TEST_START, isActive: true };
+    expect(applyDiscounts(cart, [product, shipping, smallExclusive]).appliedDiscounts.map(d => d.id)).toEqual(['d_prod', 'd_ship']);
+
+    const bigExclusive: Discount = { ...smallExclusive, id: 'd_excl_big', amount: 2500 };
+    const result = applyDiscounts(cart, [product, shipping, bigExclusive]);
+    expect(result.appliedDiscounts.map(d => d.id)).toEqual(['d_excl_big']);
+    expect(result.updatedCartItems[0].priceInCents).toBe(10000);
+    expect(result.shippingDiscountInCents).toBe(0);
+  });
+
+  it('Scenario 32: should honor combineWithShippingDiscounts on an order discount', () => {
+    const order: Discount = { id: 'd_order', type: 'ORDER', amountType: 'FIXED', amount: 2000, combineWithShippingDiscounts: false, startsAt: TEST_START, isActive: true };
+    const shipping: Discount = { id: 'd_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, startsAt: TEST_START, isActive: true };
+
+    const result = applyDiscounts(cart, [order, shipping]);
+
+    expect(result.orderLevelDiscountInCents).toBe(2000);
+    expect(result.shippingDiscountInCents).toBe(0);
+  });
+});
+
+describe('Allocation Ledger Scenarios', () => {
+  it('Scenario 33: should prorate an order discount across lines so the ledger sums exactly', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_a', collectionIds: [], quantity: 1, priceInCents: 1000 },
+      { variantId: 'v_b', collectionIds: [], quantity: 1, priceInCents: 1000 },
+      { variantId: 'v_c', collectionIds: [], quantity: 1, priceInCents: 1000 },
+    ], shippingInCents: 500 };
+    const discounts: Discount[] = [
+      { id: 'd_order', type: 'ORDER', amountType: 'FIXED', amount: 1000, startsAt: TEST_START, isActive: true },
+      { id: 'd_ship', type: 'SHIPPING', amountType: 'FIXED', amount: 200, startsAt: TEST_START, isActive: true },
+    ];
+
+    const result = applyDiscounts(cart, discounts);
+
+    expect(result.allocations).toEqual([
+      { discountId: 'd_order', discountType: 'ORDER', lineIndex: 0, variantId: 'v_a', storeId: 's1', fundedBy: 'PLATFORM', amountInCents: 334, taxInCents: 0 },
+      { discountId: 'd_order', discountType: 'ORDER', lineIndex: 1, variantId: 'v_b', storeId: 's1', fundedBy: 'PLATFORM', amountInCents: 333, taxInCents: 0 },
+      { discountId: 'd_order', discountType: 'ORDER', lineIndex: 2, variantId: 'v_c', storeId: 's1', fundedBy: 'PLATFORM', amountInCents: 333, taxInCents: 0 },
+      { discountId: 'd_ship', discountType: 'SHIPPING', lineIndex: null, variantId: null, storeId: 's1', fundedBy: 'PLATFORM', amountInCents: 200, taxInCents: 0 },
+    ]);
+  });
+
+  it('Scenario 34: getDiscountSummary - should report what was applied rather than standalone amounts', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 2, priceInCents: 5000 }] };
+    const discounts: Discount[] = [
+      { id: 'd_prod', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, applyToAllProducts: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_order', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, startsAt: TEST_START, isActive: true },
+    ];
+
+    const summary = getDiscountSummary(cart, discounts, mockCustomer, mockContext);
+
+    expect(summary.discountBreakdown.map(entry => entry.amount)).toEqual([1000, 900]);
+    expect(summary.totalDiscountAmount).toBe(1900);
+    expect(summary.allocations.filter(allocation => allocation.discountId === 'd_order')).toHaveLength(1);
+  });
+});
+
+describe('Customer Segment Scenarios', () => {
+  const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 5000 }] };
+
+  it('Scenario 35: should target first orders, tags, email domains and lifetime spend', () => {
+    const discounts: Discount[] = [
+      { id: 'd_welcome', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, startsAt: TEST_START, isActive: true, customerSegment: { firstOrderOnly: true } },
+      { id: 'd_wholesale', type: 'ORDER', amountType: 'PERCENTAGE', amount: 20, startsAt: TEST_START, isActive: true, customerSegment: { tags: ['wholesale'] } },
+      { id: 'd_students', type: 'ORDER', amountType: 'PERCENTAGE', amount: 15, startsAt: TEST_START, isActive: true, customerSegment: { emailDomains: ['@university.edu'] } },
+      { id: 'd_vip', type: 'ORDER', amountType: 'FIXED', amount: 1000, startsAt: TEST_START, isActive: true, customerSegment: { minimumLifetimeSpendInCents: 50000 } },
+    ];
+    const newStudent: Customer = { id: 'c_new', email: 'ada@cs.University.edu', orderCount: 0 };
+    const loyalBuyer: Customer = { id: 'c_loyal', email: 'bob@example.com', tags: ['Wholesale'], orderCount: 12, lifetimeSpendInCents: 80000 };
+
+    expect(evaluateDiscounts(cart, discounts, newStudent, mockContext).map(d => d.id)).toEqual(['d_welcome', 'd_students']);
+    expect(evaluateDiscounts(cart, discounts, loyalBuyer, mockContext).map(d => d.id)).toEqual(['d_wholesale', 'd_vip']);
+    expect(evaluateDiscounts(cart, discounts, undefined, mockContext)).toEqual([]);
+
+    const [welcome] = evaluateDiscountsWithReasons(cart, discounts, loyalBuyer, mockContext);
+    expect(welcome.failures).toEqual([expect.objectContaining({ code: 'CUSTOMER_SEGMENT_NOT_MET', rule: 'firstOrderOnly' })]);
+  });
+
+  it('Scenario 36: should exclude customers by id or tag, even from untargeted discounts', () => {
+    const discount: Discount = {
+      id: 'd_all', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, startsAt: TEST_START, isActive: true,
+      excludedCustomers: ['c_staff'], excludedCustomerTags: ['employee'],
+    };
+
+    expect(evaluateDiscounts(cart, [discount], mockCustomer, mockContext)).toHaveLength(1);
+    expect(evaluateDiscounts(cart, [discount], undefined, mockContext)).toHaveLength(1);
+    expect(evaluateDiscounts(cart, [discount], { id: 'c_staff' }, mockContext)).toEqual([]);
+
+    const [evaluation] = evaluateDiscountsWithReasons(cart, [discount], { id: 'c_2', tags: ['employee'] }, mockContext);
+    expect(evaluation.failures).toEqual([expect.objectContaining({ code: 'CUSTOMER_EXCLUDED', customerId: 'c_2' })]);
+  });
+});
+
+describe('Exclusion and Cap Scenarios', () => {
+  it('Scenario 37: should skip excluded variants, collections and items already on sale', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_shirt', collectionIds: ['c_apparel'], quantity: 1, priceInCents: 4000 },
+      { variantId: 'v_giftcard', collectionIds: ['c_gift'], quantity: 1, priceInCents: 5000 },
+      { variantId: 'v_clearance', collectionIds: ['c_apparel'], quantity: 1, priceInCents: 2000, compareAtPriceInCents: 3000 },
+      { variantId: 'v_socks', collectionIds: ['c_final_sale'], quantity: 1, priceInCents: 1000 },
+    ] };
+    const sitewide: Discount = {
+      id: 'd_sitewide', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 20, applyToAllProducts: true, startsAt: TEST_START, isActive: true,
+      excludedVariants: ['v_giftcard'], excludedCollections: ['c_final_sale'], excludeItemsOnSale: true,
+    };
+
+    expect(calculateDiscountAmount(sitewide, cart)).toBe(800);
+    expect(applyDiscounts(cart, [sitewide]).allocations.map(allocation => allocation.variantId)).toEqual(['v_shirt']);
+
+    const onlyExcluded: Cart = { ...cart, items: cart.items.slice(1) };
+    expect(evaluateDiscountsWithReasons(onlyExcluded, [sitewide], mockCustomer, mockContext)[0].failures[0].code).toBe('NO_ELIGIBLE_ITEMS');
+  });
+
+  it('Scenario 38: should discount at most the capped quantity, most valuable units first', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_cheap', collectionIds: [], quantity: 3, priceInCents: 1000 },
+      { variantId: 'v_dear', collectionIds: [], quantity: 2, priceInCents: 3000 },
+    ] };
+    const discount: Discount = {
+      id: 'd_three', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 50, applyToAllProducts: true, startsAt: TEST_START, isActive: true,
+      maximumDiscountedQuantity: 3,
+    };
+
+    expect(calculateDiscountAmount(discount, cart)).toBe(3500);
+    const result = applyDiscounts(cart, [discount]);
+    expect(result.allocations.map(allocation => [allocation.variantId, allocation.amountInCents])).toEqual([['v_cheap', 500], ['v_dear', 3000]]);
+    expect(result.updatedCartItems.map(item => item.priceInCents)).toEqual([833, 1500]);
+  });
+
+  it('Scenario 39: should cap the total a discount takes off, whatever its type', () => {
+    const cart: Cart = { storeId: 's1', shippingInCents: 2000, items: [
+      { variantId: 'v1', collectionIds: [], quantity: 2, priceInCents: 5000 },
+      { variantId: 'v2', collectionIds: [], quantity: 1, priceInCents: 5000 },
+    ] };
+    const product: Discount = { id: 'd_prod', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 50, applyToAllProducts: true, startsAt: TEST_START, isActive: true, maximumDiscountInCents: 6000, combineWithOrderDiscounts: true };
+    const order: Discount = { id: 'd_order', type: 'ORDER', amountType: 'PERCENTAGE', amount: 50, startsAt: TEST_START, isActive: true, maximumDiscountInCents: 1000, combineWithProductDiscounts: true };
+    const shipping: Discount = { id: 'd_ship', type: 'SHIPPING', amountType: 'FIXED', amount: 2000, startsAt: TEST_START, isActive: true, maximumDiscountInCents: 500 };
+
+    expect(calculateDiscountAmount(product, cart)).toBe(6000);
+    const result = applyDiscounts(cart, [product, order, shipping]);
+    expect(result.allocations.filter(allocation => allocation.discountId === 'd_prod').map(allocation => allocation.amountInCents)).toEqual([5000, 1000]);
+    expect(result.orderLevelDiscountInCents).toBe(1000);
+    expect(result.shippingDiscountInCents).toBe(500);
+  });
+});
+
+describe('Product Line Choice Scenarios', () => {
+  it('Scenario 40: should drop a small product discount when a non-combinable order discount saves more', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 10000 },
+      { variantId: 'v2', collectionIds: [], quantity: 1, priceInCents: 2000 },
+    ] };
+    const product: Discount = { id: 'd_small', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 5, variants: ['v2'], combineWithOrderDiscounts: false, startsAt: TEST_START, isActive: true };
+    const order: Discount = { id: 'd_order', type: 'ORDER', amountType: 'PERCENTAGE', amount: 20, startsAt: TEST_START, isActive: true };
+
+    const result = applyDiscounts(cart, [product, order]);
+
+    expect(result.appliedDiscounts.map(d => d.id)).toEqual(['d_order']);
+    expect(result.orderLevelDiscountInCents).toBe(2400);
+    expect(result.productDiscountsByLine).toEqual([[], []]);
+  });
+
+  it('Scenario 41: should pick each line\'s product discount by what it really takes off and report only winners', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 10000 },
+      { variantId: 'v2', collectionIds: [], quantity: 1, priceInCents: 4000 },
+    ] };
+    const discounts: Discount[] = [
+      { id: 'd_big', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 50, applyToAllProducts: true, maximumDiscountInCents: 1000, startsAt: TEST_START, isActive: true },
+      { id: 'd_mid', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 20, applyToAllProducts: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_never', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, applyToAllProducts: true, startsAt: TEST_START, isActive: true },
+    ];
+
+    const result = applyDiscounts(cart, discounts);
+
+    expect(result.productDiscountsByLine.map(winners => winners.map(d => d.id))).toEqual([['d_mid'], ['d_big']]);
+    expect(result.updatedCartItems.map(item => item.priceInCents)).toEqual([8000, 3000]);
+    expect(result.appliedDiscounts.map(d => d.id)).toEqual(['d_big', 'd_mid']);
+  });
+});
+
+describe('Combination Search Scenarios', () => {
+  const cart: Cart = { storeId: 's1', items: [
+    { variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 10000 },
+    { variantId: 'v2', collectionIds: [], quantity: 2, priceInCents: 4000 },
+  ] };
+  const discounts: Discount[] = Array.from({ length: 30 }, (_, index) => ({
+    id: `d_${index}`, type: 'PRODUCT', amountType: 'FIXED', amount: 10, applyToAllProducts: true,
+    combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true,
+  }));
+
+  it('Scenario 42: should search many compatible discounts quickly and say when the search was complete', () => {
+    const startedAt = Date.now();
+    const result = applyDiscounts(cart, discounts);
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(result.exhaustive).toBe(true);
+    expect(sumAllocations(result.allocations)).toBe(30 * 10 * 3);
+  });
+
+  it('Scenario 43: should fall back to a greedy combination when the step budget runs out', () => {
+    const result = applyDiscounts(cart, discounts, { maximumSearchSteps: 5 });
+
+    expect(result.exhaustive).toBe(false);
+    expect(sumAllocations(result.allocations)).toBe(30 * 10 * 3);
+  });
+});
+
+describe('Unit Price Scenarios', () => {
+  it('Scenario 44: should give buy X get Y the exact unit prices a quantity-limited product discount leaves', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v_tee', collectionIds: [], quantity: 2, priceInCents: 1000 }] };
+    const discounts: Discount[] = [
+      {
+        id: 'd_half', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 50, variants: ['v_tee'], maximumDiscountedQuantity: 1,
+        combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true,
+      },
+      {
+        id: 'd_bogo', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { variants: ['v_tee'], quantity: 1 },
+        get: { variants: ['v_tee'], quantity: 1, amountType: 'FREE' }, combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true,
+      },
+    ];
+
+    const result = applyDiscounts(cart, discounts);
+
+    // The tee already at 500 is the free one, not an averaged 750.
+    expect(result.buyXGetYDiscountInCents).toBe(500);
+    expect(result.updatedCartItems[0].priceInCents).toBe(750);
+  });
+
+  it('Scenario 45: should not let a second buy X get Y offer reuse units the first one took', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v_tee', collectionIds: [], quantity: 4, priceInCents: 1000 }] };
+    const bogo = (id: string): Discount => ({
+      id, type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { variants: ['v_tee'], quantity: 1 },
+      get: { variants: ['v_tee'], quantity: 1, amountType: 'FREE' }, combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true,
+    });
+
+    const result = applyDiscounts(cart, [bogo('d_bogo_1'), bogo('d_bogo_2')]);
+
+    expect(result.buyXGetYDiscountInCents).toBe(2000);
+    expect(result.appliedDiscounts.map(discount => discount.id)).toEqual(['d_bogo_1']);
+  });
+
+  it('Scenario 46: should not match items to a conditional product discount without a condition input', () => {
+    const item: CartItem = { variantId: 'v_tee', collectionIds: [], quantity: 1, priceInCents: 1000 };
+    const cart: Cart = { storeId: 's1', items: [item] };
+    const plain: Discount = { id: 'd_tee', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, variants: ['v_tee'], startsAt: TEST_START, isActive: true };
+    const conditional: Discount = { ...plain, id: 'd_tee_vip', condition: { type: 'CUSTOMER_TAG', tags: ['vip'] } };
+
+    expect(isItemEligibleForProductDiscount(plain, item)).toBe(true);
+    expect(isItemEligibleForProductDiscount(conditional, item)).toBe(false);
+    expect(isItemEligibleForProductDiscount(conditional, item, { cart, customer: { id: 'c1', tags: ['vip'] } })).toBe(true);
+  });
+
+  it('Scenario 47: should only resolve discounts that can combine when Stripe requires it', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 10000 }] };
+    const automatic: Discount = { id: 'd_auto', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, isAutomatic: true, startsAt: TEST_START, isActive: true };
+    const coupon: Discount = { id: 'd_coupon', code: 'SAVE15', type: 'ORDER', amountType: 'FIXED', amount: 1500, startsAt: TEST_START, isActive: true };
+    const shipping: Discount = { id: 'd_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, isAutomatic: true, startsAt: TEST_START, isActive: true };
+
+    const resolved = resolveStripeCompatibleDiscounts([automatic, coupon, shipping], cart, undefined, undefined, { requireCombinable: true });
+
+    // Two order discounts only stack when both allow it, so the larger one is kept.
+    expect(resolved.automatic).toBeNull();
+    expect(resolved.coupon?.id).toBe('d_coupon');
+    expect(resolved.freeShipping?.id).toBe('d_ship');
+
+    const stackable = [automatic, coupon].map(discount => ({ ...discount, combineWithOrderDiscounts: true }));
+    const combined = resolveStripeCompatibleDiscounts([...stackable, shipping], cart, undefined, undefined, { requireCombinable: true });
+    expect(combined.automatic?.id).toBe('d_auto');
+    expect(combined.coupon?.id).toBe('d_coupon');
+  });
+});
@@ -1,225 +1,840 @@
 export * from "./types";
-import type { Discount, Cart, CartItem, Customer, DiscountContext } from "./types";
+import { getBuyXGetYAllocation, matchesBuyXGetYSelector } from "./bxgy";
+import { getAmountOffInCents, getEffectiveDiscountAmount, getTierProgress } from "./tiers";
+import { getBundleAllocation, getBundleShortfall } from "./bundles";
+import {
+  DEFAULT_MAXIMUM_COMBINATIONS,
+  canCombineDiscounts,
+  canShareCombination,
+  createSearchBudget,
+  findMaximalCombinations,
+} from "./combination";
+import { allocateProportionally, sumAllocations } from "./allocation";
+import { withTaxImpact } from "./tax";
+import { localizeDiscount } from "./currency";
+import { getNextActiveWindow, isWithinSchedule } from "./schedule";
+import { evaluateCartCondition, evaluateCondition, hasItemConditions } from "./conditions";
+import { getDiscountFunding, getItemStoreId, getStoreCart, getStoreResults, getStoreShipping } from "./stores";
+import type {
+  ApplyDiscountsOptions,
+  ApplyDiscountsResult,
+  Cart,
+  CartItem,
+  CombinationSearchBudget,
+  ConditionInput,
+  Customer,
+  CustomerSegmentRule,
+  Discount,
+  DiscountAllocation,
+  DiscountContext,
+  DiscountCustomerSegment,
+  DiscountEvaluation,
+  DiscountTierProgress,
+  EligibilityFailure,
+  ExchangeRates,
+  ShippingOption,
+  ShippingRule,
+  StackingMode,
+  StoreDiscountResult,
+  StripeResolveOptions,
+} from "./types";
+
+export function getDateRangeFailures(discount: Discount, now: Date): EligibilityFailure[] {
+  if (discount.isActive === false) {
+    return [{ check: 'isWithinDateRange', code: 'INACTIVE', message: 'Discount is not active' }];
+  }
+  if (now.getTime() < discount.startsAt.getTime()) {
+    return [{ check: 'isWithinDateRange', code: 'NOT_STARTED', message: `Discount starts at ${discount.startsAt.toISOString()}`, startsAt: discount.startsAt }];
+  }
+  if (discount.endsAt) {
+    if (now.getTime() > discount.endsAt.getTime()) {
+      return [{ check: 'isWithinDateRange', code: 'EXPIRED', message: `Discount ended at ${discount.endsAt.toISOString()}`, endsAt: discount.endsAt }];
+    }
+  }
+  if (discount.schedule && !isWithinSchedule(discount.schedule, now)) {
+    const nextActiveAt = getNextActiveWindow(discount, now)?.startsAt ?? null;
+    return [{
+      check: 'isWithinDateRange',
+      code: 'OUTSIDE_SCHEDULE',
+      message: nextActiveAt ? `Discount is next active at ${nextActiveAt.toISOString()}` : 'Discount has no upcoming scheduled window',
+      nextActiveAt,
+    }];
+  }
+  return [];
+}
 
 export function isWithinDateRange(discount: Discount, now: Date): boolean {
-  if (discount.isActive === false) return false;
-  if (now.getTime() < discount.startsAt.getTime()) return false;
-  if (discount.endsAt) {
-    if (now.getTime() > discount.endsAt.getTime()) return false;
+  return getDateRangeFailures(discount, now).length === 0;
+}
+
+function hasAnyTag(customer: Customer, tags: string[]): boolean {
+  const customerTags = (customer.tags ?? []).map(tag => tag.toLowerCase());
+  return tags.some(tag => customerTags.includes(tag.toLowerCase()));
+}
+
+function getCustomerSegmentFailures(segment: DiscountCustomerSegment, customer: Customer): EligibilityFailure[] {
+  const failures: EligibilityFailure[] = [];
+  const fail = (rule: CustomerSegmentRule, message: string) =>
+    failures.push({ check: 'isEligibleCustomer', code: 'CUSTOMER_SEGMENT_NOT_MET', message, customerId: customer.id, rule });
+  const orderCount = customer.orderCount ?? 0;
+
+  if (segment.tags?.length && !hasAnyTag(customer, segment.tags)) {
+    fail('tags', `Discount is limited to customers tagged ${segment.tags.join(', ')}`);
+  }
+  if (segment.emailDomains?.length) {
+    const emailDomain = customer.email?.split('@').pop()?.toLowerCase() ?? '';
+    const matches = segment.emailDomains.some(entry => {
+      const domain = entry.replace(/^@/, '').toLowerCase();
+      return emailDomain === domain || emailDomain.endsWith(`.${domain}`);
+    });
+    if (!customer.email || !matches) {
+      fail('emailDomains', `Discount is limited to emails at ${segment.emailDomains.join(', ')}`);
+    }
+  }
+  if (segment.firstOrderOnly && orderCount > 0) {
+    fail('firstOrderOnly', 'Discount is only valid on a first order');
+  }
+  if (segment.minimumOrderCount !== undefined && orderCount < segment.minimumOrderCount) {
+    fail('minimumOrderCount', `Discount requires at least ${segment.minimumOrderCount} previous orders`);
+  }
+  if (segment.maximumOrderCount !== undefined && orderCount > segment.maximumOrderCount) {
+    fail('maximumOrderCount', `Discount is limited to customers with at most ${segment.maximumOrderCount} previous orders`);
+  }
+  if (segment.minimumLifetimeSpendInCents !== undefined && (customer.lifetimeSpendInCents ?? 0) < segment.minimumLifetimeSpendInCents) {
+    fail('minimumLifetimeSpendInCents', `Discount requires a lifetime spend of ${segment.minimumLifetimeSpendInCents} cents`);
+  }
+  return failures;
+}
+
+export function getCustomerFailures(discount: Discount, customer?: Customer): EligibilityFailure[] {
+  if (customer && (discount.excludedCustomers?.includes(customer.id) || hasAnyTag(customer, discount.excludedCustomerTags ?? []))) {
+    return [{ check: 'isEligibleCustomer', code: 'CUSTOMER_EXCLUDED', message: 'Customer is excluded from this discount', customerId: customer.id }];
   }
-  return true;
+  const hasCustomerList = !!discount.customers && discount.customers.length > 0;
+  const segment = discount.customerSegment;
+  const hasSegment = !!segment && Object.values(segment).some(value => value !== undefined && value !== false);
+  if (!hasCustomerList && !hasSegment) return [];
+  if (!customer) {
+    return [{ check: 'isEligibleCustomer', code: 'CUSTOMER_REQUIRED', message: 'Discount is limited to specific customers' }];
+  }
+  if (hasCustomerList && !discount.customers!.includes(customer.id)) {
+    return [{ check: 'isEligibleCustomer', code: 'CUSTOMER_NOT_ELIGIBLE', message: 'Customer is not eligible for this discount', customerId: customer.id }];
+  }
+  return hasSegment ? getCustomerSegmentFailures(segment!, customer) : [];
 }
 
 export function isEligibleCustomer(discount: Discount, customer?: Customer): boolean {
-  if (!discount.customers || discount.customers.length === 0) return true;
-  if (!customer) return false;
-  return discount.customers.includes(customer.id);
+  return getCustomerFailures(discount, customer).length === 0;
 }
 
-export function hasCustomerRemainingUses(discount: Discount, customerId?: string, context?: DiscountContext): boolean {
+export function getRemainingUsesFailures(discount: Discount, customerId?: string, context?: DiscountContext): EligibilityFailure[] {
   const discountId = discount.code || discount.id;
-  if (discount.maximumUses && (context?.usageGlobal?.[discountId] ?? 0) >= discount.maximumUses) {
-    return false;
+  const failures: EligibilityFailure[] = [];
+  const usageStore = context?.usageStore;
+  const usageQuery = { now: context?.now ?? new Date(), excludeReservationIds: context?.usageReservationIds };
+  const globalUses = usageStore
+    ? usageStore.getUsageCount(discountId, usageQuery)
+    : context?.usageGlobal?.[discountId] ?? 0;
+  if (discount.maximumUses && globalUses >= discount.maximumUses) {
+    failures.push({
+      check: 'hasCustomerRemainingUses',
+      code: 'GLOBAL_USAGE_LIMIT_REACHED',
+      message: 'Discount has reached its maximum number of uses',
+      usageCount: globalUses,
+      maximumUses: discount.maximumUses,
+    });
   }
   if (customerId && (discount.limitOncePerCustomer || discount.maximumUsesPerCustomer)) {
-    const customerUses = context?.usageByCustomer?.[discountId] ?? 0;
-    if (discount.limitOncePerCustomer && customerUses >= 1) return false;
-    if (discount.maximumUsesPerCustomer && customerUses >= discount.maximumUsesPerCustomer) return false;
+    const customerUses = usageStore
+      ? usageStore.getUsageCount(discountId, { ...usageQuery, customerId })
+      : context?.usageByCustomer?.[discountId] ?? 0;
+    const maximumUses = discount.limitOncePerCustomer ? 1 : discount.maximumUsesPerCustomer!;
+    if (customerUses >= maximumUses) {
+      failures.push({
+        check: 'hasCustomerRemainingUses',
+        code: 'CUSTOMER_USAGE_LIMIT_REACHED',
+        message: 'Customer has already used this discount the maximum number of times',
+        usageCount: customerUses,
+        maximumUses,
+      });
+    }
   }
-  return true;
+  return failures;
 }
 
-export function meetsCartTotalRequirements(discount: Discount, cart: Cart): boolean {
+export function hasCustomerRemainingUses(discount: Discount, customerId?: string, context?: DiscountContext): boolean {
+  return getRemainingUsesFailures(discount, customerId, context).length === 0;
+}
+
+export function getCartTotalFailures(discount: Discount, cart: Cart): EligibilityFailure[] {
   const cartSubtotal = cart.items.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0);
   const cartQuantity = cart.items.reduce((sum, item) => sum + item.quantity, 0);
-  if (discount.minimumPurchaseInCents && cartSubtotal < discount.minimumPurchaseInCents) return false;
-  if (discount.minimumQuantity && cartQuantity < discount.minimumQuantity) return false;
-  return true;
+  const failures: EligibilityFailure[] = [];
+  if (discount.minimumPurchaseInCents && cartSubtotal < discount.minimumPurchaseInCents) {
+    const shortfallInCents = discount.minimumPurchaseInCents - cartSubtotal;
+    failures.push({
+      check: 'meetsCartTotalRequirements',
+      code: 'MINIMUM_PURCHASE_NOT_MET',
+      message: `Add ${shortfallInCents} cents to reach the minimum purchase`,
+      subtotalInCents: cartSubtotal,
+      minimumPurchaseInCents: discount.minimumPurchaseInCents,
+      shortfallInCents,
+    });
+  }
+  if (discount.minimumQuantity && cartQuantity < discount.minimumQuantity) {
+    const remainingQuantity = discount.minimumQuantity - cartQuantity;
+    failures.push({
+      check: 'meetsCartTotalRequirements',
+      code: 'MINIMUM_QUANTITY_NOT_MET',
+      message: `Add ${remainingQuantity} more item(s) to reach the minimum quantity`,
+      quantity: cartQuantity,
+      minimumQuantity: discount.minimumQuantity,
+      remainingQuantity,
+    });
+  }
+  return failures;
 }
 
-export function isEligibleForCountry(discount: Discount, countryCode?: string): boolean {
+export function meetsCartTotalRequirements(discount: Discount, cart: Cart): boolean {
+  return getCartTotalFailures(discount, cart).length === 0;
+}
+
+export function getCountryFailures(discount: Discount, countryCode?: string): EligibilityFailure[] {
   if (discount.applyToAllCountries === true) {
-    return true;
+    return [];
   }
   const hasCountryRestrictions = Array.isArray(discount.countryCodes) && discount.countryCodes.length > 0;
-  if (hasCountryRestrictions) {
-    return !!countryCode && discount.countryCodes!.includes(countryCode);
+  if (hasCountryRestrictions && !(countryCode && discount.countryCodes!.includes(countryCode))) {
+    return [{
+      check: 'isEligibleForCountry',
+      code: 'COUNTRY_NOT_ELIGIBLE',
+      message: countryCode ? `Discount is not available in ${countryCode}` : 'Discount requires a shipping country',
+      countryCode,
+      allowedCountryCodes: discount.countryCodes!,
+    }];
   }
-  return true;
+  return [];
 }
 
-export function isItemEligibleForProductDiscount(discount: Discount, item: CartItem): boolean {
+export function isEligibleForCountry(discount: Discount, countryCode?: string): boolean {
+  return getCountryFailures(discount, countryCode).length === 0;
+}
+
+export function getSelectedShippingOption(cart: Cart): ShippingOption | undefined {
+  return cart.shippingOptions?.find(option => option.id === cart.selectedShippingOptionId);
+}
+
+// Targeting is read from the selected shipping option; the rate ceiling is checked against the shipping the discount
+// would take its amount off, the charged shipping of its store or the whole cart.
+export function getShippingFailures(discount: Discount, cart: Cart): EligibilityFailure[] {
+  if (discount.type !== 'SHIPPING') return [];
+  const option = getSelectedShippingOption(cart);
+  const failures: EligibilityFailure[] = [];
+  const fail = (rule: ShippingRule, message: string) =>
+    failures.push({ check: 'isEligibleForShipping', code: 'SHIPPING_NOT_ELIGIBLE', message, shippingOptionId: option?.id, rule });
+
+  if (discount.shippingMethods?.length && !(option && discount.shippingMethods.includes(option.methodId))) {
+    fail('shippingMethods', option ? `Discount is not available for ${option.methodId} shipping` : 'Discount requires a shipping method');
+  }
+  if (discount.shippingCarriers?.length && !(option?.carrier && discount.shippingCarriers.includes(option.carrier))) {
+    fail('shippingCarriers', option?.carrier ? `Discount is not available with ${option.carrier}` : 'Discount requires a shipping carrier');
+  }
+  const rateInCents = Object.values(getStoreShipping(discount.storeId ? getStoreCart(cart, discount.storeId) : cart))
+    .reduce((sum, amount) => sum + amount, 0);
+  if (discount.maximumShippingRateInCents !== undefined && rateInCents > discount.maximumShippingRateInCents) {
+    fail('maximumShippingRateInCents', `Shipping rate is above ${discount.maximumShippingRateInCents} cents`);
+  }
+  if (discount.maximumShippingWeightInGrams !== undefined &&
+    !(option?.weightInGrams !== undefined && option.weightInGrams <= discount.maximumShippingWeightInGrams)) {
+    fail('maximumShippingWeightInGrams', option?.weightInGrams !== undefined
+      ? `Shipment is heavier than ${discount.maximumShippingWeightInGrams}g`
+      : 'Discount requires a shipping weight');
+  }
+  return failures;
+}
+
+export function isEligibleForShipping(discount: Discount, cart: Cart): boolean {
+  return getShippingFailures(discount, cart).length === 0;
+}
+
+export function getStoreFailures(discount: Discount, cart: Cart): EligibilityFailure[] {
+  if (!discount.storeId) return [];
+  const storeCart = getStoreCart(cart, discount.storeId);
+  if (storeCart.items.length > 0 || (storeCart.shippingInCents ?? 0) > 0) return [];
+  return [{ check: 'isEligibleForStore', code: 'STORE_NOT_IN_CART', message: `Cart has nothing from store ${discount.storeId}`, storeId: discount.storeId }];
+}
+
+export function isEligibleForStore(discount: Discount, cart: Cart): boolean {
+  return getStoreFailures(discount, cart).length === 0;
+}
+
+export function getCurrencyFailures(discount: Discount, cart: Cart, exchangeRates?: ExchangeRates): EligibilityFailure[] {
+  if (localizeDiscount(discount, cart.currency, exchangeRates)) {
+    return [];
+  }
+  return [{
+    check: 'isEligibleForCurrency',
+    code: 'CURRENCY_MISMATCH',
+    message: `Discount is defined in ${discount.currency} and has no ${cart.currency} amount`,
+    currency: discount.currency!,
+    cartCurrency: cart.currency!,
+  }];
+}
+
+export function isEligibleForCurrency(discount: Discount, cart: Cart, exchangeRates?: ExchangeRates): boolean {
+  return getCurrencyFailures(discount, cart, exchangeRates).length === 0;
+}
+
+function isItemExcluded(discount: Discount, item: CartItem): boolean {
+  if (discount.excludedVariants?.includes(item.variantId)) return true;
+  if (discount.excludedCollections?.some(id => item.collectionIds.includes(id))) return true;
+  return !!discount.excludeItemsOnSale && (item.compareAtPriceInCents ?? 0) > item.priceInCents;
+}
+
+// Items of another store are never targeted; an item whose store is unknown is left to the cart-level store check.
+function isItemTargeted(discount: Discount, item: CartItem, cartStoreId?: string): boolean {
   if (discount.type !== 'PRODUCT') return false;
+  const itemStoreId = item.storeId ?? cartStoreId;
+  if (discount.storeId && itemStoreId && itemStoreId !== discount.storeId) return false;
+  if (isItemExcluded(discount, item)) return false;
   if (discount.applyToAllProducts) return true;
   if (discount.variants?.includes(item.variantId)) return true;
   if (discount.collections?.some(id => item.collectionIds.includes(id))) return true;
   return false;
 }
 
-export function evaluateDiscounts(cart: Cart, discounts: Discount[], customer?: Customer, context?: DiscountContext): Discount[] {
+// Conditions fail closed: without a condition input, a discount with a condition matches no item.
+export function isItemEligibleForProductDiscount(discount: Discount, item: CartItem, conditionInput?: ConditionInput): boolean {
+  if (!isItemTargeted(discount, item, conditionInput?.cart.storeId)) return false;
+  if (!discount.condition) return true;
+  if (!conditionInput) return false;
+  return evaluateCondition(discount.condition, { ...conditionInput, item }).passed;
+}
+
+export function getProductDiscountPerUnit(
+  discount: Discount,
+  item: CartItem,
+  priceInCents: number = item.priceInCents,
+  conditionInput?: ConditionInput
+): number {
+  if (!isItemEligibleForProductDiscount(discount, item, conditionInput)) return 0;
+  const { amountType, amount } = getEffectiveDiscountAmount(discount, item.priceInCents * item.quantity, item.quantity);
+  return getAmountOffInCents(amountType, amount, priceInCents);
+}
+
+// Units per line a PRODUCT discount may take off, spending maximumDiscountedQuantity on the largest discounts first.
+function getDiscountedQuantities(discount: Discount, cart: Cart, conditionInput: ConditionInput): number[] {
+  const quantities = cart.items.map(() => 0);
+  let remainingQuantity = discount.maximumDiscountedQuantity ?? Infinity;
+  cart.items
+    .map((item, lineIndex) => ({ lineIndex, amountPerUnit: getProductDiscountPerUnit(discount, item, item.priceInCents, conditionInput) }))
+    .filter(line => line.amountPerUnit > 0)
+    .sort((a, b) => b.amountPerUnit - a.amountPerUnit)
+    .forEach(({ lineIndex }) => {
+      quantities[lineIndex] = Math.min(cart.items[lineIndex].quantity, remainingQuantity);
+      remainingQuantity -= quantities[lineIndex];
+    });
+  return quantities;
+}
+
+export function getDiscountTierProgress(discount: Discount, cart: Cart, conditionInput: ConditionInput = { cart }): DiscountTierProgress {
+  const tiers = discount.tiers ?? [];
+  if (discount.type === 'PRODUCT') {
+    const lineProgress = cart.items
+      .filter(item => isItemEligibleForProductDiscount(discount, item, conditionInput))
+      .map(item => getTierProgress(tiers, item.priceInCents * item.quantity, item.quantity));
+    const closest = lineProgress
+      .filter(progress => progress.nextTier)
+      .sort((a, b) => a.quantityToNextTier - b.quantityToNextTier || a.amountToNextTierInCents - b.amountToNextTierInCents)[0];
+    return closest ?? lineProgress[0] ?? getTierProgress(tiers, 0, 0);
+  }
+  const cartSubtotal = cart.items.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0);
+  const cartQuantity = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+  return getTierProgress(tiers, cartSubtotal, cartQuantity);
+}
+
+export function getTierFailures(discount: Discount, cart: Cart, conditionInput: ConditionInput = { cart }): EligibilityFailure[] {
+  if (!discount.tiers || discount.tiers.length === 0 || discount.type === 'BXGY' || discount.type === 'BUNDLE') return [];
+  if (discount.type === 'PRODUCT') {
+    const eligibleItems = cart.items.filter(item => isItemEligibleForProductDiscount(discount, item, conditionInput));
+    if (eligibleItems.length === 0) return [];
+    if (eligibleItems.some(item => getTierProgress(discount.tiers!, item.priceInCents * item.quantity, item.quantity).currentTier)) return [];
+  }
+  const progress = getDiscountTierProgress(discount, cart, conditionInput);
+  if (progress.currentTier || !progress.nextTier) return [];
+  return [{
+    check: 'meetsTierRequirements',
+    code: 'TIER_NOT_MET',
+    message: 'Cart does not reach the lowest discount tier',
+    nextTier: progress.nextTier,
+    shortfallInCents: progress.amountToNextTierInCents,
+    remainingQuantity: progress.quantityToNextTier,
+  }];
+}
+
+export function getProductMatchFailures(discount: Discount, cart: Cart): EligibilityFailure[] {
+  if (discount.type !== 'PRODUCT') return [];
+  if (cart.items.some(item => isItemTargeted(discount, item, cart.storeId))) return [];
+  return [{ check: 'isItemEligibleForProductDiscount', code: 'NO_ELIGIBLE_ITEMS', message: 'No items in the cart are eligible for this discount' }];
+}
+
+// PRODUCT discounts need one of their targeted items to satisfy the condition, other types any item.
+export function getConditionFailures(discount: Discount, conditionInput: ConditionInput): EligibilityFailure[] {
+  if (!discount.condition) return [];
+  const items = discount.type === 'PRODUCT'
+    ? conditionInput.cart.items.filter(item => isItemTargeted(discount, item, conditionInput.cart.storeId))
+    : conditionInput.cart.items;
+  if (discount.type === 'PRODUCT' && items.length === 0 && hasItemConditions(discount.condition)) return [];
+  const { passed, failures } = evaluateCartCondition(discount.condition, conditionInput, items);
+  if (passed) return [];
+  return [{
+    check: 'meetsConditions',
+    code: 'CONDITION_NOT_MET',
+    message: failures.map(failure => failure.message).join('; '),
+    conditionFailures: failures,
+  }];
+}
+
+export function meetsConditions(discount: Discount, conditionInput: ConditionInput): boolean {
+  return getConditionFailures(discount, conditionInput).length === 0;
+}
+
+export function getBuyXGetYFailures(discount: Discount, cart: Cart): EligibilityFailure[] {
+  if (discount.type !== 'BXGY') return [];
+  if (getBuyXGetYAllocation(discount, cart.items).applications > 0) return [];
+  const buy = discount.buy ?? {};
+  const buyItems = cart.items.filter(item => matchesBuyXGetYSelector(buy, item));
+  const buyQuantity = buyItems.reduce((sum, item) => sum + item.quantity, 0);
+  const buySubtotal = buyItems.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0);
+  const requiredQuantity = buy.quantity ?? (buy.minimumPurchaseInCents ? 0 : 1);
+  const remainingQuantity = Math.max(0, requiredQuantity - buyQuantity);
+  const shortfallInCents = Math.max(0, (buy.minimumPurchaseInCents ?? 0) - buySubtotal);
+  if (remainingQuantity > 0 || shortfallInCents > 0) {
+    return [{
+      check: 'meetsBuyXGetYRequirements',
+      code: 'BUY_REQUIREMENT_NOT_MET',
+      message: 'Cart does not contain enough qualifying items to buy',
+      remainingQuantity,
+      shortfallInCents,
+    }];
+  }
+  return [{ check: 'meetsBuyXGetYRequirements', code: 'NO_ELIGIBLE_GET_ITEMS', message: 'Add a qualifying item to receive the reward' }];
+}
+
+export function getBundleFailures(discount: Discount, cart: Cart): EligibilityFailure[] {
+  if (discount.type !== 'BUNDLE') return [];
+  const missingComponents = getBundleShortfall(discount, cart.items);
+  if (missingComponents.length === 0) return [];
+  return [{
+    check: 'meetsBundleRequirements',
+    code: 'BUNDLE_INCOMPLETE',
+    message: `Cart is missing ${missingComponents.reduce((sum, component) => sum + component.remainingQuantity, 0)} items to complete the bundle`,
+    missingComponents,
+  }];
+}
+
+export function meetsBundleRequirements(discount: Discount, cart: Cart): boolean {
+  return getBundleFailures(discount, cart).length === 0;
+}
+
+export function meetsBuyXGetYRequirements(discount: Discount, cart: Cart): boolean {
+  return getBuyXGetYFailures(discount, cart).length === 0;
+}
+
+export function explainDiscountEligibility(cart: Cart, discount: Discount, customer?: Customer, context?: DiscountContext): DiscountEvaluation {
   const now = context?.now || new Date();
-  return discounts.filter(discount => {
-    if (!isWithinDateRange(discount, now)) {
-      return false;
-    }
-    if (!isEligibleCustomer(discount, customer)) {
-      return false;
-    }
-    if (!hasCustomerRemainingUses(discount, customer?.id, context)) {
-      return false;
-    }
-    if (!meetsCartTotalRequirements(discount, cart)) {
-      return false;
-    }
-    if (!isEligibleForCountry(discount, cart.shippingCountryCode)) {
-      return false;
-    }
-    if (discount.type === 'PRODUCT') {
-      const eligible = cart.items.some(item => isItemEligibleForProductDiscount(discount, item));
-      return eligible;
-    }
-    return true;
-  });
+  const localized = localizeDiscount(discount, cart.currency, context?.exchangeRates);
+  // Store discounts are measured against that store's part of the cart only.
+  const scopedCart = discount.storeId ? getStoreCart(cart, discount.storeId) : cart;
+  const conditionInput: ConditionInput = { cart: scopedCart, customer, context };
+  const failures = [
+    ...getDateRangeFailures(discount, now),
+    ...getCustomerFailures(localized ?? discount, customer),
+    ...getRemainingUsesFailures(discount, customer?.id, context),
+    ...getStoreFailures(discount, cart),
+    ...(localized ? getCartTotalFailures(localized, scopedCart) : getCurrencyFailures(discount, cart, context?.exchangeRates)),
+    ...getCountryFailures(discount, cart.shippingCountryCode),
+    ...(localized ? getShippingFailures(localized, cart) : []),
+    ...getConditionFailures(localized ?? discount, conditionInput),
+    ...(localized ? [
+      ...getProductMatchFailures(localized, scopedCart),
+      ...getBuyXGetYFailures(localized, scopedCart),
+      ...getBundleFailures(localized, scopedCart),
+      ...getTierFailures(localized, scopedCart, conditionInput),
+    ] : []),
+  ];
+  return { discount, eligible: failures.length === 0, failures };
+}
+
+export function evaluateDiscountsWithReasons(cart: Cart, discounts: Discount[], customer?: Customer, context?: DiscountContext): DiscountEvaluation[] {
+  return discounts.map(discount => explainDiscountEligibility(cart, discount, customer, context));
+}
+
+export function evaluateDiscounts(cart: Cart, discounts: Discount[], customer?: Customer, context?: DiscountContext): Discount[] {
+  return evaluateDiscountsWithReasons(cart, discounts, customer, context)
+    .filter(evaluation => evaluation.eligible)
+    .map(evaluation => evaluation.discount);
 }
 
 export function calculateDiscountAmount(
   discount: Discount,
   cart: Cart,
-  subtotalAfterProductDiscounts?: number
+  subtotalAfterProductDiscounts?: number,
+  customer?: Customer,
+  context?: DiscountContext
 ): number {
+  const localized = localizeDiscount(discount, cart.currency, context?.exchangeRates);
+  if (!localized) return 0;
+  discount = localized;
+  if (discount.storeId) cart = getStoreCart(cart, discount.storeId);
   let amountInCents = 0;
 
   switch (discount.type) {
     case 'PRODUCT':
-      cart.items.forEach(item => {
-        if (isItemEligibleForProductDiscount(discount, item)) {
-          let itemDiscount = 0;
-          if (discount.amountType === 'PERCENTAGE') {
-            itemDiscount = Math.round(item.priceInCents * (discount.amount / 100));
-          } else { 
-            itemDiscount = discount.amount;
-          }
-          amountInCents += Math.min(item.priceInCents, itemDiscount) * item.quantity;
-        }
+      const discountedQuantities = getDiscountedQuantities(discount, cart, { cart, customer, context });
+      cart.items.forEach((item, lineIndex) => {
+        amountInCents += getProductDiscountPerUnit(discount, item, item.priceInCents, { cart, customer, context }) * discountedQuantities[lineIndex];
       });
       break;
 
     case 'ORDER':
-      const orderSubtotal = subtotalAfterProductDiscounts ?? cart.items.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0);
-      
-      if (discount.amountType === 'PERCENTAGE') {
-        amountInCents = Math.round(orderSubtotal * (discount.amount / 100));
-      } else { 
-        amountInCents = discount.amount;
-      }
-      amountInCents = Math.min(orderSubtotal, amountInCents);
+      const cartSubtotal = cart.items.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0);
+      const cartQuantity = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+      const orderSubtotal = subtotalAfterProductDiscounts ?? cartSubtotal;
+      const orderAmount = getEffectiveDiscountAmount(discount, cartSubtotal, cartQuantity);
+      amountInCents = getAmountOffInCents(orderAmount.amountType, orderAmount.amount, orderSubtotal);
+      break;
+
+    case 'BXGY':
+      amountInCents = getBuyXGetYAllocation(discount, cart.items).discountsInCents.reduce((sum, amount) => sum + amount, 0);
+      break;
+
+    case 'BUNDLE':
+      amountInCents = getBundleAllocation(discount, cart.items).discountsInCents.reduce((sum, amount) => sum + amount, 0);
       break;
 
     case 'SHIPPING':
       const shippingCost = cart.shippingInCents || 0;
-      amountInCents = shippingCost;
-      if (discount.amountType === 'FIXED') {
-          amountInCents = Math.min(shippingCost, discount.amount);
-      }
+      const shippingAmount = getEffectiveDiscountAmount(
+        discount,
+        cart.items.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0),
+        cart.items.reduce((sum, item) => sum + item.quantity, 0)
+      );
+      amountInCents = getAmountOffInCents(shippingAmount.amountType, shippingAmount.amount, shippingCost);
       if (discount.maximumAmountForShippingInCents) {
         amountInCents = Math.min(amountInCents, discount.maximumAmountForShippingInCents);
       }
       break;
   }
+  if (discount.maximumDiscountInCents !== undefined) {
+    amountInCents = Math.min(amountInCents, discount.maximumDiscountInCents);
+  }
   return amountInCents;
 }
 
-export function applyDiscounts(cart: Cart, discounts: Discount[]): {
-  updatedCartItems: CartItem[];
-  orderLevelDiscountInCents: number;
-  shippingDiscountInCents: number;
-  appliedDiscounts: Discount[];
-} {
+function sortByPriority(discounts: Discount[]): Discount[] {
+  return [...discounts].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+}
+
+function getStackedProductDiscounts(
+  discounts: Discount[],
+  item: CartItem,
+  stackingMode: StackingMode,
+  conditionInput: ConditionInput
+): Array<{ discount: Discount; amountPerUnit: number }> {
+  let remainingPrice = item.priceInCents;
+  return sortByPriority(discounts).map(discount => {
+    const basePrice = stackingMode === 'SEQUENTIAL' ? remainingPrice : item.priceInCents;
+    const amountPerUnit = Math.min(remainingPrice, getProductDiscountPerUnit(discount, item, basePrice, conditionInput));
+    remainingPrice -= amountPerUnit;
+    return { discount, amountPerUnit };
+  });
+}
+
+// Each discount takes its amount off the first units of the line, a capped one stops part way; units that end up
+// at the same price are grouped.
+function getUnitPriceGroups(
+  item: CartItem,
+  reductions: Array<{ amountPerUnit: number; amountInCents: number }>
+): Array<{ priceInCents: number; quantity: number }> {
+  const fullUnits = reductions.map(({ amountPerUnit, amountInCents }) => amountPerUnit > 0 ? Math.min(item.quantity, Math.floor(amountInCents / amountPerUnit)) : 0);
+  const breakpoints = new Set([0, item.quantity, ...fullUnits, ...fullUnits.map(units => Math.min(item.quantity, units + 1))]);
+  const positions = [...breakpoints].sort((a, b) => a - b);
+  const groups: Array<{ priceInCents: number; quantity: number }> = [];
+  for (let index = 0; index < positions.length - 1; index++) {
+    const unit = positions[index];
+    const reduction = reductions.reduce((sum, { amountPerUnit, amountInCents }, reductionIndex) =>
+      sum + (unit < fullUnits[reductionIndex] ? amountPerUnit : unit === fullUnits[reductionIndex] ? amountInCents - unit * amountPerUnit : 0), 0);
+    const priceInCents = item.priceInCents - reduction;
+    const quantity = positions[index + 1] - unit;
+    const last = groups[groups.length - 1];
+    if (last?.priceInCents === priceInCents) {
+      last.quantity += quantity;
+    } else {
+      groups.push({ priceInCents, quantity });
+    }
+  }
+  return groups;
+}
+
+function applyDiscountCombination(
+  cart: Cart,
+  discounts: Discount[],
+  stackingMode: StackingMode,
+  conditionInput: ConditionInput,
+  budget: CombinationSearchBudget
+): ApplyDiscountsResult {
   const productDiscounts = discounts.filter(d => d.type === 'PRODUCT');
-  const orderDiscounts = discounts.filter(d => d.type === 'ORDER');
-  const shippingDiscounts = discounts.filter(d => d.type === 'SHIPPING');
+  const buyXGetYDiscounts = sortByPriority(discounts.filter(d => d.type === 'BXGY'));
+  const bundleDiscounts = sortByPriority(discounts.filter(d => d.type === 'BUNDLE'));
+  const orderDiscounts = sortByPriority(discounts.filter(d => d.type === 'ORDER'));
+  const shippingDiscounts = sortByPriority(discounts.filter(d => d.type === 'SHIPPING'));
+
+  const allocations: DiscountAllocation[] = [];
+  const remainingCaps = new Map(discounts.map(discount => [discount.id, discount.maximumDiscountInCents ?? Infinity]));
+  // Records what is left of the amount after the discount's cap, and returns it.
+  const allocate = (discount: Discount, lineIndex: number | null, requestedInCents: number, storeId = cart.storeId): number => {
+    const amountInCents = Math.min(requestedInCents, remainingCaps.get(discount.id)!);
+    if (amountInCents <= 0) return 0;
+    remainingCaps.set(discount.id, remainingCaps.get(discount.id)! - amountInCents);
+    const lineStoreId = lineIndex === null ? storeId : getItemStoreId(cart, cart.items[lineIndex]);
+    const existing = allocations.find(allocation =>
+      allocation.discountId === discount.id && allocation.lineIndex === lineIndex && allocation.storeId === lineStoreId
+    );
+    if (existing) {
+      existing.amountInCents += amountInCents;
+      return amountInCents;
+    }
+    allocations.push({
+      discountId: discount.id,
+      discountType: discount.type,
+      lineIndex,
+      variantId: lineIndex === null ? null : cart.items[lineIndex].variantId,
+      storeId: lineStoreId,
+      fundedBy: getDiscountFunding(discount),
+      amountInCents,
+      taxInCents: 0,
+    });
+    return amountInCents;
+  };
 
-  let totalProductDiscountValue = 0; 
-  const updatedCartItems = cart.items.map(item => {
-    let bestDiscountPerUnit = 0;
-    for (const discount of productDiscounts) {
-      if (isItemEligibleForProductDiscount(discount, item)) {
-        let currentDiscount = (discount.amountType === 'PERCENTAGE')
-          ? Math.round(item.priceInCents * (discount.amount / 100))
-          : discount.amount;
-        if (currentDiscount > bestDiscountPerUnit) {
-          bestDiscountPerUnit = currentDiscount;
-        }
+  const discountedQuantities = new Map(productDiscounts.map(discount => [discount, getDiscountedQuantities(discount, cart, conditionInput)]));
+  const remainingLineTotals = cart.items.map(item => item.priceInCents * item.quantity);
+  const productDiscountsByLine: Discount[][] = [];
+  const unitPriceGroups: Array<Array<{ priceInCents: number; quantity: number }>> = [];
+  let exhaustive = true;
+  const updatedCartItems = cart.items.map((item, lineIndex) => {
+    const units = (discount: Discount) => discountedQuantities.get(discount)![lineIndex];
+    // What a discount would really take off this line, after its units and whatever is left of its cap.
+    const lineAmount = (discount: Discount, amountPerUnit: number) => Math.min(amountPerUnit * units(discount), remainingCaps.get(discount.id)!);
+    const applicable = productDiscounts.filter(discount => units(discount) > 0);
+    let bestStack: Array<{ discount: Discount; amountPerUnit: number }> = [];
+    let bestLineDiscount = 0;
+    const lineSearch = findMaximalCombinations(applicable, canCombineDiscounts, DEFAULT_MAXIMUM_COMBINATIONS, budget);
+    exhaustive &&= lineSearch.exhaustive;
+    for (const combination of lineSearch.combinations) {
+      const stack = getStackedProductDiscounts(combination, item, stackingMode, conditionInput);
+      const lineDiscount = stack.reduce((sum, entry) => sum + lineAmount(entry.discount, entry.amountPerUnit), 0);
+      if (lineDiscount > bestLineDiscount) {
+        bestLineDiscount = lineDiscount;
+        bestStack = stack;
       }
     }
-    const actualDiscountPerUnit = Math.min(item.priceInCents, bestDiscountPerUnit);
-    const finalPricePerUnit = item.priceInCents - actualDiscountPerUnit;
-    totalProductDiscountValue += actualDiscountPerUnit * item.quantity; 
-    return { ...item, priceInCents: finalPricePerUnit };
+    const winners: Discount[] = [];
+    const reductions: Array<{ amountPerUnit: number; amountInCents: number }> = [];
+    let lineDiscount = 0;
+    for (const { discount, amountPerUnit } of bestStack) {
+      const appliedAmount = allocate(discount, lineIndex, amountPerUnit * units(discount));
+      if (appliedAmount > 0) winners.push(discount);
+      reductions.push({ amountPerUnit, amountInCents: appliedAmount });
+      lineDiscount += appliedAmount;
+    }
+    productDiscountsByLine.push(winners);
+    unitPriceGroups.push(getUnitPriceGroups(item, reductions));
+    remainingLineTotals[lineIndex] -= lineDiscount;
+    // Capped discounts and quantity limits can leave units at different prices, the displayed price is then the line average.
+    return { ...item, priceInCents: item.quantity > 0 ? item.priceInCents - Math.round(lineDiscount / item.quantity) : item.priceInCents };
   });
-  const subtotalAfterProducts = updatedCartItems.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0);
 
-  const productDiscountApplied = totalProductDiscountValue > 0; 
+  const isInScope = (discount: Discount, lineIndex: number) =>
+    !discount.storeId || getItemStoreId(cart, cart.items[lineIndex]) === discount.storeId;
+  // BXGY and bundles see every unit at its exact price, so a line whose units differ is split into one entry per price.
+  const unitLines = stackingMode === 'SEQUENTIAL'
+    ? unitPriceGroups.flatMap((groups, lineIndex) => groups.map(group => ({ lineIndex, item: { ...cart.items[lineIndex], ...group } })))
+    : cart.items.map((item, lineIndex) => ({ lineIndex, item }));
+  // Units an offer takes, to buy or to reward, are not offered again to the next one.
+  const remainingQuantities = unitLines.map(({ item }) => item.quantity);
+  const getScopedItems = (discount: Discount) =>
+    unitLines.map(({ lineIndex, item }, index) => ({ ...item, quantity: isInScope(discount, lineIndex) ? remainingQuantities[index] : 0 }));
+  const takeUnits = (usedQuantities: number[]) => usedQuantities.forEach((quantity, index) => {
+    remainingQuantities[index] -= quantity;
+  });
+  const toLineAmounts = (amounts: number[]) => {
+    const lineAmounts = cart.items.map(() => 0);
+    amounts.forEach((amountInCents, index) => {
+      lineAmounts[unitLines[index].lineIndex] += amountInCents;
+    });
+    return lineAmounts;
+  };
+  let buyXGetYDiscountInCents = 0;
+  for (const discount of buyXGetYDiscounts) {
+    const allocation = getBuyXGetYAllocation(discount, getScopedItems(discount));
+    takeUnits(allocation.usedQuantities);
+    toLineAmounts(allocation.discountsInCents).forEach((amountInCents, lineIndex) => {
+      const appliedAmount = allocate(discount, lineIndex, Math.min(amountInCents, remainingLineTotals[lineIndex]));
+      remainingLineTotals[lineIndex] -= appliedAmount;
+      buyXGetYDiscountInCents += appliedAmount;
+    });
+  }
+  let bundleDiscountInCents = 0;
+  for (const discount of bundleDiscounts) {
+    const allocation = getBundleAllocation(discount, getScopedItems(discount));
+    takeUnits(allocation.usedQuantities);
+    toLineAmounts(allocation.discountsInCents).forEach((amountInCents, lineIndex) => {
+      const appliedAmount = allocate(discount, lineIndex, Math.min(amountInCents, remainingLineTotals[lineIndex]));
+      remainingLineTotals[lineIndex] -= appliedAmount;
+      bundleDiscountInCents += appliedAmount;
+    });
+  }
 
-  let bestOrderDiscount: Discount | null = null;
-  let maxOrderValue = -1;
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const subtotalAfterProducts = sum(remainingLineTotals);
   for (const discount of orderDiscounts) {
-    if (discount.combineWithProductDiscounts === false && productDiscountApplied) {
-      continue;
-    }
-    const value = calculateDiscountAmount(discount, { ...cart, items: updatedCartItems }, subtotalAfterProducts);
-    if (value > maxOrderValue) {
-      maxOrderValue = value;
-      bestOrderDiscount = discount;
-    }
+    const lineIndexes = cart.items.map((_, lineIndex) => lineIndex).filter(lineIndex => isInScope(discount, lineIndex));
+    const remainingSubtotal = sum(lineIndexes.map(lineIndex => remainingLineTotals[lineIndex]));
+    const originalSubtotal = sum(lineIndexes.map(lineIndex => cart.items[lineIndex].priceInCents * cart.items[lineIndex].quantity));
+    const baseSubtotal = stackingMode === 'SEQUENTIAL' ? remainingSubtotal : originalSubtotal;
+    const amountInCents = Math.min(remainingSubtotal, calculateDiscountAmount(discount, cart, baseSubtotal));
+    allocateProportionally(amountInCents, lineIndexes.map(lineIndex => remainingLineTotals[lineIndex])).forEach((share, index) => {
+      remainingLineTotals[lineIndexes[index]] -= share;
+      allocate(discount, lineIndexes[index], share);
+    });
   }
-  const orderLevelDiscountInCents = maxOrderValue > -1 ? maxOrderValue : 0;
+  const orderLevelDiscountInCents = subtotalAfterProducts - sum(remainingLineTotals);
 
-  const orderDiscountApplied = !!bestOrderDiscount;
-  let bestShippingDiscount: Discount | null = null;
-  let maxShippingValue = -1;
+  // Shipping discounts are split over the stores' shipping charges so each store's payout sees its share.
+  const storeShipping = getStoreShipping(cart);
+  const remainingShipping = { ...storeShipping };
   for (const discount of shippingDiscounts) {
-    if (discount.combineWithOrderDiscounts === false && orderDiscountApplied) {
-      continue;
-    }
-    const value = calculateDiscountAmount(discount, cart); 
-    if (value > maxShippingValue) {
-      maxShippingValue = value;
-      bestShippingDiscount = discount;
-    }
+    const storeIds = discount.storeId ? [discount.storeId] : Object.keys(storeShipping);
+    const remainingStoreShipping = storeIds.map(storeId => remainingShipping[storeId] ?? 0);
+    const baseShipping = stackingMode === 'SEQUENTIAL'
+      ? sum(remainingStoreShipping)
+      : sum(storeIds.map(storeId => storeShipping[storeId] ?? 0));
+    const scopedCart = discount.storeId ? getStoreCart(cart, discount.storeId) : cart;
+    const amountInCents = Math.min(sum(remainingStoreShipping), calculateDiscountAmount(discount, { ...scopedCart, shippingInCents: baseShipping }));
+    allocateProportionally(amountInCents, remainingStoreShipping).forEach((share, index) => {
+      remainingShipping[storeIds[index]] -= share;
+      allocate(discount, null, share, storeIds[index]);
+    });
   }
-  const shippingDiscountInCents = maxShippingValue > -1 ? maxShippingValue : 0;
-  const actuallyAppliedProductDiscounts: Discount[] = [];
-  if (productDiscountApplied) {
-      actuallyAppliedProductDiscounts.push(
-          ...productDiscounts.filter(discount =>
-              cart.items.some(item => isItemEligibleForProductDiscount(discount, item))
-          )
-      );
+  const shippingDiscountInCents = sum(Object.values(storeShipping)) - sum(Object.values(remainingShipping));
+
+  const appliedDiscounts = [...productDiscounts, ...buyXGetYDiscounts, ...bundleDiscounts, ...orderDiscounts, ...shippingDiscounts]
+    .filter(discount => allocations.some(allocation => allocation.discountId === discount.id));
+
+  return {
+    updatedCartItems,
+    allocations,
+    orderLevelDiscountInCents,
+    shippingDiscountInCents,
+    buyXGetYDiscountInCents,
+    bundleDiscountInCents,
+    appliedDiscounts,
+    productDiscountsByLine,
+    exhaustive,
+    stackingMode,
+    tierProgress: [],
+    stores: [],
+  };
+}
+
+export function applyDiscounts(cart: Cart, discounts: Discount[], options: ApplyDiscountsOptions = {}): ApplyDiscountsResult {
+  const stackingMode = options.stackingMode ?? 'SEQUENTIAL';
+  // Discounts are applied in the cart's currency and reported back as the objects passed in.
+  const originals = new Map<Discount, Discount>();
+  const localizedDiscounts = discounts.flatMap(discount => {
+    const localized = localizeDiscount(discount, cart.currency, options.exchangeRates);
+    if (!localized) return [];
+    originals.set(localized, discount);
+    return [localized];
+  });
+  const budget = options.searchBudget ?? createSearchBudget(options.maximumSearchSteps);
+  const search = findMaximalCombinations(localizedDiscounts, canShareCombination, options.maximumCombinations, budget);
+
+  const conditionInput: ConditionInput = { cart, customer: options.customer, context: options.context };
+  let best = applyDiscountCombination(cart, [], stackingMode, conditionInput, budget);
+  let bestSavings = 0;
+  let exhaustive = search.exhaustive;
+  for (const combination of search.combinations) {
+    const result = applyDiscountCombination(cart, combination, stackingMode, conditionInput, budget);
+    exhaustive &&= result.exhaustive;
+    const savings = sumAllocations(result.allocations);
+    if (savings > bestSavings) {
+      best = result;
+      bestSavings = savings;
+    }
   }
 
-  const appliedDiscounts = [
-    ...actuallyAppliedProductDiscounts,
-    bestOrderDiscount,
-    bestShippingDiscount
-  ].filter(Boolean) as Discount[];
+  const tierProgress = localizedDiscounts
+    .filter(discount => discount.tiers && discount.tiers.length > 0)
+    .map(discount => ({ ...getDiscountTierProgress(discount, cart, conditionInput), discount: originals.get(discount)! }));
 
-  return { updatedCartItems, orderLevelDiscountInCents, shippingDiscountInCents, appliedDiscounts };
+  return {
+    ...best,
+    allocations: withTaxImpact(cart, best.allocations),
+    appliedDiscounts: best.appliedDiscounts.map(discount => originals.get(discount)!),
+    productDiscountsByLine: best.productDiscountsByLine.map(winners => winners.map(discount => originals.get(discount)!)),
+    exhaustive,
+    tierProgress,
+    stores: getStoreResults(cart, best.allocations),
+  };
 }
 
-export function resolveStripeCompatibleDiscounts(discounts: Discount[], cart: Cart): { 
+// Stripe takes one automatic coupon, one promotion code and one shipping rate; requireCombinable picks the combinable set worth the most.
+export function resolveStripeCompatibleDiscounts(
+  discounts: Discount[],
+  cart: Cart,
+  customer?: Customer,
+  context?: DiscountContext,
+  options: StripeResolveOptions = {}
+): { 
   automatic: Discount | null; 
   coupon: Discount | null; 
   freeShipping: Discount | null; 
 } {
+  const values = new Map(discounts.map(discount => [discount, calculateDiscountAmount(discount, cart, undefined, customer, context)]));
+  const valueOf = (discount: Discount | null) => discount ? values.get(discount)! : 0;
   const automaticDiscounts = discounts.filter(d => d.isAutomatic && d.type !== 'SHIPPING');
   const couponDiscounts = discounts.filter(d => !d.isAutomatic && d.code && d.type !== 'SHIPPING');
   const shippingDiscounts = discounts.filter(d => d.type === 'SHIPPING');
 
+  if (options.requireCombinable) {
+    const fits = (discount: Discount | null, others: Array<Discount | null>) =>
+      !discount || others.every(other => !other || canCombineDiscounts(discount, other));
+    // Empty slots are tried last, so on a tie the set that exports more discounts, and the coupon over the automatic one, wins.
+    let best = { automatic: null as Discount | null, coupon: null as Discount | null, freeShipping: null as Discount | null };
+    let bestValue = -1;
+    for (const coupon of [...couponDiscounts, null]) {
+      for (const automatic of [...automaticDiscounts, null]) {
+        if (!fits(automatic, [coupon])) continue;
+        for (const freeShipping of [...shippingDiscounts, null]) {
+          if (!fits(freeShipping, [coupon, automatic])) continue;
+          const value = valueOf(coupon) + valueOf(automatic) + valueOf(freeShipping);
+          if (value > bestValue) {
+            bestValue = value;
+            best = { automatic, coupon, freeShipping };
+          }
+        }
+      }
+    }
+    return best;
+  }
+
   let bestCoupon: Discount | null = null;
   let maxCouponValue = -1;
   for (const discount of couponDiscounts) {
-    const value = calculateDiscountAmount(discount, cart);
+    const value = valueOf(discount);
     if (value > maxCouponValue) {
       maxCouponValue = value;
       bestCoupon = discount;
@@ -230,7 +845,7 @@ export function resolveStripeCompatibleDiscounts(discounts: Discount[], cart: Ca
   if (bestCoupon?.exclusive !== true) {
     let maxAutoValue = -1;
     for (const discount of automaticDiscounts) {
-      const value = calculateDiscountAmount(discount, cart);
+      const value = valueOf(discount);
       if (value > maxAutoValue) {
         maxAutoValue = value;
         bestAutomatic = discount;
@@ -241,7 +856,7 @@ export function resolveStripeCompatibleDiscounts(discounts: Discount[], cart: Ca
   let bestShipping: Discount | null = null;
   let maxShippingValue = -1;
   for (const discount of shippingDiscounts) {
-    const value = calculateDiscountAmount(discount, cart);
+    const value = valueOf(discount);
     if (value > maxShippingValue) {
       maxShippingValue = value;
       bestShipping = discount;
@@ -257,59 +872,61 @@ export function previewDiscount(cart: Cart, discount: Discount, customer?: Custo
   updatedCartItems?: CartItem[];
   orderLevelDiscountInCents?: number;
   shippingDiscountInCents?: number;
+  buyXGetYDiscountInCents?: number;
+  bundleDiscountInCents?: number;
   canApply: boolean;
   reason?: string;
+  failures: EligibilityFailure[];
+  tierProgress?: DiscountTierProgress;
 } {
-  const eligibleDiscounts = evaluateDiscounts(cart, [discount], customer, context);
+  const evaluation = explainDiscountEligibility(cart, discount, customer, context);
+  discount = localizeDiscount(discount, cart.currency, context?.exchangeRates) ?? discount;
+  const tierProgress = discount.tiers && discount.tiers.length > 0 ? getDiscountTierProgress(discount, cart, { cart, customer, context }) : undefined;
 
-  if (eligibleDiscounts.length === 0) {
+  if (!evaluation.eligible) {
     return {
       originalCart: cart,
       discountAmount: 0,
       canApply: false,
-      reason: 'Discount is not eligible (e.g., date, customer, usage, country, or cart rules)'
+      reason: evaluation.failures.map(failure => failure.message).join('; '),
+      failures: evaluation.failures,
+      tierProgress
     };
   }
 
-  const discountAmount = calculateDiscountAmount(discount, cart);
+  const discountAmount = calculateDiscountAmount(discount, cart, undefined, customer, context);
 
   if (discountAmount === 0) {
     return {
       originalCart: cart,
       discountAmount: 0,
       canApply: false,
-      reason: 'Discount eligible, but has no monetary effect on current cart contents'
+      reason: 'Discount eligible, but has no monetary effect on current cart contents',
+      failures: []
     };
   }
 
   const result = {
     originalCart: cart,
     discountAmount,
-    canApply: true
+    canApply: true,
+    failures: [],
+    tierProgress
   };
 
   switch (discount.type) {
     case 'PRODUCT':
-      const updatedCartItems = cart.items.map(item => {
-        if (!isItemEligibleForProductDiscount(discount, item)) {
-          return item; 
-        }
+      // Same path as applyDiscounts, so quantity and amount caps shape the preview too.
+      const { updatedCartItems } = applyDiscounts(cart, [discount], { customer, context });
 
-        let itemDiscount = 0;
-        if (discount.amountType === 'PERCENTAGE') {
-          itemDiscount = Math.round(item.priceInCents * (discount.amount / 100));
-        } else {
-          itemDiscount = discount.amount;
-        }
-        
-        const actualDiscountPerUnit = Math.min(item.priceInCents, itemDiscount);
-        const finalPricePerUnit = item.priceInCents - actualDiscountPerUnit;
-        
-        return { ...item, priceInCents: finalPricePerUnit };
-      });
-      
       return { ...result, updatedCartItems };
 
+    case 'BXGY':
+      return { ...result, buyXGetYDiscountInCents: discountAmount };
+
+    case 'BUNDLE':
+      return { ...result, bundleDiscountInCents: discountAmount };
+
     case 'ORDER':
       return { ...result, orderLevelDiscountInCents: discountAmount };
 
@@ -321,7 +938,8 @@ export function previewDiscount(cart: Cart, discount: Discount, customer?: Custo
         originalCart: cart,
         discountAmount: 0,
         canApply: false,
-        reason: 'Unknown discount type'
+        reason: 'Unknown discount type',
+        failures: []
       };
   }
 }
@@ -330,12 +948,15 @@ export function getDiscountSummary(
   cart: Cart,
   discounts: Discount[],
   customer?: Customer,
-  context?: DiscountContext
+  context?: DiscountContext,
+  options?: ApplyDiscountsOptions
 ): {
   totalDiscountAmount: number;
   productDiscountAmount: number;
   orderDiscountAmount: number;
   shippingDiscountAmount: number;
+  buyXGetYDiscountAmount: number;
+  bundleDiscountAmount: number;
   appliedDiscountCount: number;
   eligibleDiscountCount: number;
   discountBreakdown: Array<{
@@ -343,37 +964,42 @@ export function getDiscountSummary(
     amount: number;
     type: string;
     applied: boolean;
+    eligible: boolean;
+    failures: EligibilityFailure[];
   }>;
+  allocations: DiscountAllocation[];
+  stores: StoreDiscountResult[];
 } {
-  const eligibleDiscounts = evaluateDiscounts(cart, discounts, customer, context);
-  const applied = applyDiscounts(cart, eligibleDiscounts);
+  const evaluations = evaluateDiscountsWithReasons(cart, discounts, customer, context);
+  const eligibleDiscounts = evaluations.filter(evaluation => evaluation.eligible).map(evaluation => evaluation.discount);
+  const applied = applyDiscounts(cart, eligibleDiscounts, { exchangeRates: context?.exchangeRates, customer, context, ...options });
+  const { allocations } = applied;
   
-  const discountBreakdown = discounts.map(discount => {
-    const isEligible = eligibleDiscounts.includes(discount);
+  const discountBreakdown = evaluations.map(({ discount, eligible, failures }) => {
     const isApplied = applied.appliedDiscounts.includes(discount);
-    const amount = isEligible ? calculateDiscountAmount(discount, cart) : 0;
+    const amount = isApplied ? sumAllocations(allocations, allocation => allocation.discountId === discount.id) : 0;
     
     return {
       discount,
       amount,
       type: discount.type,
-      applied: isApplied
+      applied: isApplied,
+      eligible,
+      failures
     };
   });
 
-  const productDiscountAmount = applied.updatedCartItems.reduce((total, item, index) => {
-    const originalItem = cart.items[index];
-    const discountPerUnit = originalItem.priceInCents - item.priceInCents;
-    return total + (discountPerUnit * item.quantity);
-  }, 0);
-
   return {
-    totalDiscountAmount: productDiscountAmount + applied.orderLevelDiscountInCents + applied.shippingDiscountInCents,
-    productDiscountAmount,
-    orderDiscountAmount: applied.orderLevelDiscountInCents,
-    shippingDiscountAmount: applied.shippingDiscountInCents,
+    totalDiscountAmount: sumAllocations(allocations),
+    productDiscountAmount: sumAllocations(allocations, allocation => allocation.discountType === 'PRODUCT'),
+    orderDiscountAmount: sumAllocations(allocations, allocation => allocation.discountType === 'ORDER'),
+    shippingDiscountAmount: sumAllocations(allocations, allocation => allocation.discountType === 'SHIPPING'),
+    buyXGetYDiscountAmount: sumAllocations(allocations, allocation => allocation.discountType === 'BXGY'),
+    bundleDiscountAmount: sumAllocations(allocations, allocation => allocation.discountType === 'BUNDLE'),
     appliedDiscountCount: applied.appliedDiscounts.length,
     eligibleDiscountCount: eligibleDiscounts.length,
-    discountBreakdown
+    discountBreakdown,
+    allocations,
+    stores: applied.stores
   };
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+export * from "./discount";
+export * from "./bxgy";
+export * from "./tiers";
+export * from "./combination";
+export * from "./allocation";
+export * from "./refunds";
+export * from "./codes";
+export * from "./validation";
+export * from "./serialization";
+export * from "./usage";
+export * from "./totals";
+export * from "./tax";
+export * from "./currency";
+export * from "./schedule";
+export * from "./conditions";
+export * from "./stores";
+export * from "./bundles";
+export * from "./tenders";
+export * from "./stripe";
+export * from "./optimizer";
+export * from "./shipping";
+export * from "./simulation";
+export * from "./upsell";
@@ -0,0 +1,91 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { optimizeDiscounts } from './optimizer';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const cart: Cart = {
+  storeId: 's1',
+  shippingInCents: 800,
+  items: [{ variantId: 'v1', collectionIds: [], quantity: 2, priceInCents: 5000 }],
+};
+
+const automaticOrder: Discount = { id: 'd_auto', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, isAutomatic: true, startsAt: TEST_START, isActive: true };
+
+describe('Discount optimizer', () => {
+  it('should pick the set that saves the most and explain every entered code', () => {
+    const discounts: Discount[] = [
+      automaticOrder,
+      { id: 'd_save15', code: 'SAVE15', type: 'ORDER', amountType: 'FIXED', amount: 1500, startsAt: TEST_START, isActive: true },
+      { id: 'd_ship', code: 'FREESHIP', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, startsAt: TEST_START, isActive: true },
+      { id: 'd_vip', code: 'VIP', type: 'ORDER', amountType: 'FIXED', amount: 3000, customerSegment: { tags: ['vip'] }, startsAt: TEST_START, isActive: true },
+      { id: 'd_old', code: 'OLD', type: 'ORDER', amountType: 'FIXED', amount: 3000, startsAt: TEST_START, endsAt: new Date('2025-06-23T00:00:00Z'), isActive: true },
+    ];
+
+    const optimization = optimizeDiscounts(cart, discounts, ['save15', 'FREESHIP', 'VIP', 'OLD', 'NOPE', 'Save 15'], { customer: { id: 'c1' }, context: mockContext });
+
+    expect(optimization.best.discounts.map(discount => discount.id)).toEqual(['d_save15', 'd_ship']);
+    expect(optimization.best.savingsInCents).toBe(2300);
+    expect(optimization.alternatives.map(alternative => [alternative.discounts.map(discount => discount.id), alternative.savingsInCents])).toEqual([
+      [['d_auto', 'd_ship'], 1800],
+    ]);
+    expect(optimization.codes.map(outcome => [outcome.code, outcome.status])).toEqual([
+      ['save15', 'APPLIED'],
+      ['FREESHIP', 'APPLIED'],
+      ['VIP', 'INELIGIBLE'],
+      ['OLD', 'EXPIRED'],
+      ['NOPE', 'NOT_FOUND'],
+    ]);
+    expect(optimization.exhaustive).toBe(true);
+  });
+
+  it('should say why an eligible code was not used', () => {
+    const discounts: Discount[] = [
+      automaticOrder,
+      { id: 'd_auto_product', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 20, applyToAllProducts: true, isAutomatic: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_small', code: 'SMALL', type: 'ORDER', amountType: 'FIXED', amount: 500, exclusive: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_five', code: 'FIVE', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 5, applyToAllProducts: true, startsAt: TEST_START, isActive: true },
+    ];
+
+    const { best, codes } = optimizeDiscounts(cart, discounts, ['SMALL', 'FIVE'], { context: mockContext });
+
+    expect(best.discounts.map(discount => discount.id)).toEqual(['d_auto_product', 'd_auto']);
+    expect(codes[0]).toMatchObject({ status: 'OUTRANKED', savingsInCents: 500, message: 'Cannot combine with d_auto_product, d_auto, which save more' });
+    expect(codes[0].conflictsWith?.map(discount => discount.id)).toEqual(['d_auto_product', 'd_auto']);
+    expect(codes[1]).toMatchObject({ status: 'NO_SAVINGS', message: 'Takes nothing off alongside the other discounts' });
+  });
+
+  it('should compare the sets using entered codes first when the search is bounded', () => {
+    const discounts: Discount[] = [
+      { ...automaticOrder, amount: 30 },
+      { id: 'd_save15', code: 'SAVE15', type: 'ORDER', amountType: 'FIXED', amount: 1500, startsAt: TEST_START, isActive: true },
+    ];
+
+    const optimization = optimizeDiscounts(cart, discounts, ['SAVE15'], { context: mockContext, maximumCombinations: 1 });
+
+    expect(optimization.exhaustive).toBe(false);
+    expect(optimization.best.discounts.map(discount => discount.id)).toEqual(['d_save15']);
+    expect(optimization.codes[0].status).toBe('APPLIED');
+  });
+});
+
+describe('Discount optimizer search bound', () => {
+  it('should stop within its step budget on a large discount list', () => {
+    // 12 order and 13 shipping discounts that do not stack within their class: 156 maximal sets.
+    const discounts: Discount[] = [
+      ...Array.from({ length: 12 }, (_, index): Discount => ({
+        id: `d_order_${index}`, type: 'ORDER', amountType: 'FIXED', amount: 100 + index, isAutomatic: true, startsAt: TEST_START, isActive: true,
+      })),
+      ...Array.from({ length: 13 }, (_, index): Discount => ({
+        id: `d_ship_${index}`, type: 'SHIPPING', amountType: 'FIXED', amount: 10 + index, isAutomatic: true, startsAt: TEST_START, isActive: true,
+      })),
+    ];
+
+    const startedAt = Date.now();
+    const optimization = optimizeDiscounts(cart, discounts, [], { context: mockContext, maximumSearchSteps: 200 });
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(optimization.exhaustive).toBe(false);
+    expect(optimization.best.savingsInCents).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,118 @@
+import { sumAllocations } from "./allocation";
+import { findDiscountByCode, normalizeDiscountCode } from "./codes";
+import { canShareCombination, createSearchBudget, findMaximalCombinations } from "./combination";
+import { applyDiscounts, explainDiscountEligibility } from "./discount";
+import type {
+  Cart,
+  Discount,
+  DiscountCodeOutcome,
+  DiscountCombinationResult,
+  DiscountEvaluation,
+  DiscountOptimization,
+  DiscountOptimizerOptions,
+} from "./types";
+
+const DEFAULT_MAXIMUM_ALTERNATIVES = 3;
+
+function getSetKey(discounts: Discount[]): string {
+  return discounts.map(discount => discount.id).sort().join('\u0000');
+}
+
+// Picks the set of automatic discounts and entered codes that saves the most, and explains what happened to each code.
+export function optimizeDiscounts(
+  cart: Cart,
+  discounts: Discount[],
+  enteredCodes: string[],
+  options: DiscountOptimizerOptions = {}
+): DiscountOptimization {
+  const { customer, context } = options;
+  // One budget bounds this search and every applyDiscounts call it makes.
+  const searchBudget = options.searchBudget ?? createSearchBudget(options.maximumSearchSteps);
+  const applyOptions = { ...options, searchBudget, exchangeRates: options.exchangeRates ?? context?.exchangeRates };
+  const now = context?.now ?? new Date();
+
+  const codes: DiscountCodeOutcome[] = [];
+  const codeDiscounts: Discount[] = [];
+  const seenCodes = new Set<string>();
+  for (const code of enteredCodes) {
+    const normalizedCode = normalizeDiscountCode(code);
+    if (seenCodes.has(normalizedCode)) continue;
+    seenCodes.add(normalizedCode);
+
+    const lookup = findDiscountByCode(code, discounts, now);
+    if (lookup.status === 'NOT_FOUND') {
+      codes.push({ code, status: 'NOT_FOUND', message: 'No discount has this code' });
+    } else if (lookup.status !== 'FOUND') {
+      codes.push({ code, status: lookup.status, message: lookup.failures[0].message, discount: lookup.discount, failures: lookup.failures });
+    } else {
+      const evaluation = explainDiscountEligibility(cart, lookup.discount, customer, context);
+      if (evaluation.eligible) {
+        codeDiscounts.push(lookup.discount);
+        codes.push({ code, status: 'APPLIED', message: 'Applied in the best set of discounts', discount: lookup.discount });
+      } else {
+        const message = evaluation.failures.map(failure => failure.message).join('; ');
+        codes.push({ code, status: 'INELIGIBLE', message, discount: lookup.discount, failures: evaluation.failures });
+      }
+    }
+  }
+
+  const automaticEvaluations: DiscountEvaluation[] = discounts
+    .filter(discount => discount.isAutomatic && !codeDiscounts.includes(discount))
+    .map(discount => explainDiscountEligibility(cart, discount, customer, context));
+  // Entered codes go first so the combinations compared before the bound is hit are the ones that use them.
+  const candidates = [
+    ...codeDiscounts,
+    ...automaticEvaluations.filter(evaluation => evaluation.eligible).map(evaluation => evaluation.discount),
+  ];
+  const search = findMaximalCombinations(candidates, canShareCombination, options.maximumCombinations, searchBudget);
+  let exhaustive = search.exhaustive;
+
+  const results: DiscountCombinationResult[] = [];
+  const bestWithDiscount = new Map<Discount, number>();
+  for (const combination of search.combinations) {
+    const result = applyDiscounts(cart, combination, applyOptions);
+    exhaustive &&= result.exhaustive;
+    const savingsInCents = sumAllocations(result.allocations);
+    results.push({ discounts: result.appliedDiscounts, savingsInCents, result });
+    for (const discount of combination) {
+      bestWithDiscount.set(discount, Math.max(bestWithDiscount.get(discount) ?? 0, savingsInCents));
+    }
+  }
+  // Ties keep the order the combinations were found in, like applyDiscounts.
+  results.sort((a, b) => b.savingsInCents - a.savingsInCents);
+
+  const distinct: DiscountCombinationResult[] = [];
+  const seenSets = new Set<string>();
+  for (const result of results) {
+    const key = getSetKey(result.discounts);
+    if (seenSets.has(key)) continue;
+    seenSets.add(key);
+    distinct.push(result);
+  }
+  const best = distinct[0] ?? { discounts: [], savingsInCents: 0, result: applyDiscounts(cart, [], applyOptions) };
+
+  for (const outcome of codes) {
+    const discount = outcome.discount!;
+    if (outcome.status !== 'APPLIED' || best.discounts.includes(discount)) continue;
+    const conflictsWith = best.discounts.filter(applied => !canShareCombination(discount, applied));
+    if (conflictsWith.length === 0 && bestWithDiscount.has(discount)) {
+      outcome.status = 'NO_SAVINGS';
+      outcome.message = 'Takes nothing off alongside the other discounts';
+      continue;
+    }
+    outcome.status = 'OUTRANKED';
+    outcome.conflictsWith = conflictsWith;
+    outcome.savingsInCents = bestWithDiscount.get(discount);
+    outcome.message = outcome.savingsInCents === undefined
+      ? 'Not part of any set compared before the search bound was reached'
+      : `Cannot combine with ${conflictsWith.map(applied => applied.code ?? applied.id).join(', ')}, which save more`;
+  }
+
+  return {
+    best,
+    alternatives: distinct.slice(1, 1 + (options.maximumAlternatives ?? DEFAULT_MAXIMUM_ALTERNATIVES)),
+    codes,
+    ineligible: automaticEvaluations.filter(evaluation => !evaluation.eligible),
+    exhaustive,
+  };
+}
@@ -0,0 +1,128 @@
+import type { Cart, Discount } from './types';
+import { applyDiscounts } from './discount';
+import { calculateRefund } from './refunds';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+
+describe('calculateRefund', () => {
+  const cart: Cart = { storeId: 's1', items: [
+    { variantId: 'v_mug', collectionIds: [], quantity: 2, priceInCents: 2000 },
+    { variantId: 'v_plate', collectionIds: [], quantity: 1, priceInCents: 4000 },
+    { variantId: 'v_bowl', collectionIds: [], quantity: 1, priceInCents: 2000 },
+  ] };
+
+  it('should refund returned units net of their share of an order discount', () => {
+    const coupon: Discount = { id: 'd_order', code: 'SAVE20', type: 'ORDER', amountType: 'FIXED', amount: 2000, startsAt: TEST_START, isActive: true };
+    const applied = applyDiscounts(cart, [coupon]);
+
+    const refund = calculateRefund(cart, applied, [{ lineIndex: 1, quantity: 1 }]);
+
+    expect(refund.lines).toEqual([{ lineIndex: 1, variantId: 'v_plate', quantity: 1, originalAmountInCents: 4000, discountInCents: 800, refundInCents: 3200 }]);
+    expect(refund.clawbacks).toEqual([]);
+    expect(refund.refundInCents).toBe(3200);
+    expect(refund.releasedUsageKeys).toEqual([]);
+  });
+
+  it('should claw back a discount whose minimum purchase the kept items no longer meet', () => {
+    const coupon: Discount = { id: 'd_order', code: 'BIG20', type: 'ORDER', amountType: 'FIXED', amount: 2000, minimumPurchaseInCents: 8000, startsAt: TEST_START, isActive: true };
+    const applied = applyDiscounts(cart, [coupon]);
+
+    const refund = calculateRefund(cart, applied, [{ lineIndex: 1, quantity: 1 }]);
+
+    expect(refund.clawbacks).toEqual([expect.objectContaining({ discountId: 'd_order', amountInCents: 1200 })]);
+    expect(refund.clawbacks[0].failures[0]).toMatchObject({ code: 'MINIMUM_PURCHASE_NOT_MET', shortfallInCents: 2000 });
+    expect(refund.refundInCents).toBe(3200 - 1200);
+    expect(refund.releasedUsageKeys).toEqual(['BIG20']);
+  });
+
+  it('should take back a buy X get Y reward when its bought item is returned', () => {
+    const bogo: Discount = { id: 'd_bogo', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { variants: ['v_plate'], quantity: 1 }, get: { variants: ['v_bowl'], quantity: 1, amountType: 'FREE' }, startsAt: TEST_START, isActive: true };
+    const applied = applyDiscounts(cart, [bogo]);
+
+    const refund = calculateRefund(cart, applied, [{ lineIndex: 1, quantity: 1 }]);
+
+    expect(refund.lines[0].refundInCents).toBe(4000);
+    expect(refund.clawbacks).toEqual([expect.objectContaining({ discountId: 'd_bogo', amountInCents: 2000 })]);
+    expect(refund.refundInCents).toBe(2000);
+  });
+
+  it('should release every usage when the whole order is returned', () => {
+    const coupon: Discount = { id: 'd_order', code: 'SAVE20', type: 'ORDER', amountType: 'FIXED', amount: 2000, startsAt: TEST_START, isActive: true };
+    const applied = applyDiscounts(cart, [coupon]);
+
+    const refund = calculateRefund(cart, applied, [{ lineIndex: 0, quantity: 2 }, { lineIndex: 1, quantity: 1 }, { lineIndex: 2, quantity: 1 }]);
+
+    expect(refund.refundInCents).toBe(8000);
+    expect(refund.releasedUsageKeys).toEqual(['SAVE20']);
+  });
+
+  it('should refund shipping net of its discount when the whole order is returned', () => {
+    const shippedCart: Cart = { ...cart, shippingInCents: 900 };
+    const shippingDiscount: Discount = { id: 'd_ship', code: 'SHIP5', type: 'SHIPPING', amountType: 'FIXED', amount: 500, startsAt: TEST_START, isActive: true };
+    const applied = applyDiscounts(shippedCart, [shippingDiscount]);
+    const everything = [{ lineIndex: 0, quantity: 2 }, { lineIndex: 1, quantity: 1 }, { lineIndex: 2, quantity: 1 }];
+
+    const refund = calculateRefund(shippedCart, applied, everything);
+    expect(refund.shippingRefundInCents).toBe(400);
+    expect(refund.refundInCents).toBe(10000 + 400);
+    expect(refund.releasedUsageKeys).toEqual(['SHIP5']);
+
+    const keptShipping = calculateRefund(shippedCart, applied, everything, { refundShippingOnFullReturn: false });
+    expect(keptShipping.refundInCents).toBe(10000);
+    expect(keptShipping.releasedUsageKeys).toEqual([]);
+  });
+
+  it('should recompute a buy X get Y reward at original prices when it was applied that way', () => {
+    const halfOffBowls: Discount = {
+      id: 'd_bowls', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 50, variants: ['v_bowl'], combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true,
+    };
+    const plateDeal: Discount = {
+      id: 'd_deal', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { variants: ['v_plate'], quantity: 1 },
+      get: { variants: ['v_bowl'], quantity: 1, amountType: 'PERCENTAGE', amount: 50 }, combineWithProductDiscounts: true, startsAt: TEST_START, isActive: true,
+    };
+    const applied = applyDiscounts(cart, [halfOffBowls, plateDeal], { stackingMode: 'ORIGINAL_PRICE' });
+
+    const refund = calculateRefund(cart, applied, [{ lineIndex: 0, quantity: 1 }]);
+
+    expect(applied.buyXGetYDiscountInCents).toBe(1000);
+    expect(refund.clawbacks).toEqual([]);
+  });
+
+  it('should re-check a store discount against what is kept from its store', () => {
+    const marketplaceCart: Cart = { storeId: 'platform', items: [
+      { variantId: 'v_vase', collectionIds: [], quantity: 2, priceInCents: 3000, storeId: 's1' },
+      { variantId: 'v_rug', collectionIds: [], quantity: 1, priceInCents: 9000, storeId: 's2' },
+    ] };
+    const storeCoupon: Discount = {
+      id: 'd_s1', code: 'S1BIG', type: 'ORDER', amountType: 'FIXED', amount: 1000, storeId: 's1', minimumPurchaseInCents: 5000, startsAt: TEST_START, isActive: true,
+    };
+    const applied = applyDiscounts(marketplaceCart, [storeCoupon]);
+
+    const refund = calculateRefund(marketplaceCart, applied, [{ lineIndex: 0, quantity: 1 }]);
+
+    expect(refund.clawbacks).toEqual([expect.objectContaining({ discountId: 'd_s1', amountInCents: 500 })]);
+    expect(refund.clawbacks[0].failures[0]).toMatchObject({ code: 'MINIMUM_PURCHASE_NOT_MET', shortfallInCents: 2000 });
+  });
+
+  it('should re-check a discount in another currency against the converted minimum', () => {
+    const exchangeRates = { USD: 1, JPY: 150 };
+    const yenCart: Cart = { storeId: 's1', currency: 'JPY', items: [
+      { variantId: 'v_mug', collectionIds: [], quantity: 2, priceInCents: 2500 },
+      { variantId: 'v_plate', collectionIds: [], quantity: 1, priceInCents: 5000 },
+    ] };
+    const coupon: Discount = {
+      id: 'd_usd', code: 'USD5', type: 'ORDER', amountType: 'FIXED', amount: 500, currency: 'USD', minimumPurchaseInCents: 5000, startsAt: TEST_START, isActive: true,
+    };
+    const applied = applyDiscounts(yenCart, [coupon], { exchangeRates });
+
+    const refund = calculateRefund(yenCart, applied, [{ lineIndex: 1, quantity: 1 }], { exchangeRates });
+
+    expect(refund.clawbacks).toEqual([expect.objectContaining({ discountId: 'd_usd', amountInCents: 375 })]);
+    expect(refund.clawbacks[0].failures[0]).toMatchObject({ code: 'MINIMUM_PURCHASE_NOT_MET', shortfallInCents: 2500 });
+  });
+
+  it('should reject returning more units than were bought', () => {
+    const applied = applyDiscounts(cart, []);
+    expect(() => calculateRefund(cart, applied, [{ lineIndex: 1, quantity: 2 }])).toThrow('Cannot return 2 of 1 units on line 1');
+  });
+});
@@ -0,0 +1,125 @@
+import { allocateProportionally, sumAllocations } from "./allocation";
+import { getBundleAllocation } from "./bundles";
+import { getBuyXGetYAllocation } from "./bxgy";
+import { localizeDiscount } from "./currency";
+import { getBuyXGetYFailures, getBundleFailures, getCartTotalFailures, getTierFailures } from "./discount";
+import { getItemStoreId, getStoreCart, getStoreShipping } from "./stores";
+import type {
+  ApplyDiscountsResult,
+  Cart,
+  DiscountAllocation,
+  DiscountClawback,
+  RefundLine,
+  RefundOptions,
+  RefundResult,
+  ReturnedLine,
+} from "./types";
+
+export function calculateRefund(
+  cart: Cart,
+  applied: ApplyDiscountsResult,
+  returnedLines: ReturnedLine[],
+  options: RefundOptions = {}
+): RefundResult {
+  const returnedQuantities = cart.items.map(() => 0);
+  for (const { lineIndex, quantity } of returnedLines) {
+    const item = cart.items[lineIndex];
+    if (!item) {
+      throw new Error(`Returned line ${lineIndex} is not part of the cart`);
+    }
+    returnedQuantities[lineIndex] += quantity;
+    if (quantity < 0 || returnedQuantities[lineIndex] > item.quantity) {
+      throw new Error(`Cannot return ${returnedQuantities[lineIndex]} of ${item.quantity} units on line ${lineIndex}`);
+    }
+  }
+
+  const returnedDiscounts = cart.items.map(() => 0);
+  const keptAllocations: DiscountAllocation[] = applied.allocations.map(allocation => {
+    if (allocation.lineIndex === null) return allocation;
+    const quantity = cart.items[allocation.lineIndex].quantity;
+    const returnedQuantity = returnedQuantities[allocation.lineIndex];
+    const [returnedShare, keptShare] = allocateProportionally(allocation.amountInCents, [returnedQuantity, quantity - returnedQuantity]);
+    returnedDiscounts[allocation.lineIndex] += returnedShare;
+    return { ...allocation, amountInCents: keptShare };
+  });
+
+  const lines: RefundLine[] = [];
+  cart.items.forEach((item, lineIndex) => {
+    const quantity = returnedQuantities[lineIndex];
+    if (quantity === 0) return;
+    const originalAmountInCents = item.priceInCents * quantity;
+    lines.push({
+      lineIndex,
+      variantId: item.variantId,
+      quantity,
+      originalAmountInCents,
+      discountInCents: returnedDiscounts[lineIndex],
+      refundInCents: originalAmountInCents - returnedDiscounts[lineIndex],
+    });
+  });
+
+  const keptCart: Cart = {
+    ...cart,
+    items: cart.items.map((item, lineIndex) => ({ ...item, quantity: item.quantity - returnedQuantities[lineIndex] })),
+  };
+  const fullyReturned = keptCart.items.every(item => item.quantity === 0);
+  const refundsShipping = fullyReturned && (options.refundShippingOnFullReturn ?? true);
+  // Rewards are recomputed from the prices they were first computed from.
+  const rewardItems = applied.stackingMode === 'ORIGINAL_PRICE' ? cart.items : applied.updatedCartItems;
+
+  const clawbacks: DiscountClawback[] = [];
+  const releasedUsageKeys: string[] = [];
+  for (const appliedDiscount of applied.appliedDiscounts) {
+    // Thresholds are compared in the cart's currency, as they were when the discount was applied.
+    const discount = localizeDiscount(appliedDiscount, cart.currency, options.exchangeRates) ?? appliedDiscount;
+    const usageKey = discount.code || discount.id;
+    const keptShare = sumAllocations(keptAllocations, allocation => allocation.discountId === discount.id);
+    if (fullyReturned) {
+      // A shipping discount stays used when the shipping it paid for is not refunded.
+      if (discount.type !== 'SHIPPING' || refundsShipping) releasedUsageKeys.push(usageKey);
+      continue;
+    }
+    if (keptShare === 0) {
+      releasedUsageKeys.push(usageKey);
+      continue;
+    }
+
+    // Store discounts are re-checked against what is kept from their store, as eligibility measured them.
+    const scopedCart = discount.storeId ? getStoreCart(keptCart, discount.storeId) : keptCart;
+    const keptItems = rewardItems.map((item, lineIndex) => ({
+      ...item,
+      quantity: !discount.storeId || getItemStoreId(cart, item) === discount.storeId ? keptCart.items[lineIndex].quantity : 0,
+    }));
+    let failures = [...getCartTotalFailures(discount, scopedCart), ...getTierFailures(discount, scopedCart)];
+    let amountInCents = failures.length > 0 ? keptShare : 0;
+    if (discount.type === 'BXGY' && failures.length === 0) {
+      const entitledInCents = getBuyXGetYAllocation(discount, keptItems).discountsInCents.reduce((sum, amount) => sum + amount, 0);
+      amountInCents = Math.max(0, keptShare - entitledInCents);
+      failures = getBuyXGetYFailures(discount, scopedCart);
+    } else if (discount.type === 'BUNDLE' && failures.length === 0) {
+      const entitledInCents = getBundleAllocation(discount, keptItems).discountsInCents.reduce((sum, amount) => sum + amount, 0);
+      amountInCents = Math.max(0, keptShare - entitledInCents);
+      failures = getBundleFailures(discount, scopedCart);
+    }
+
+    if (amountInCents > 0) {
+      clawbacks.push({ discountId: discount.id, amountInCents, failures });
+      if (amountInCents === keptShare) releasedUsageKeys.push(usageKey);
+    }
+  }
+
+  const lineRefundInCents = lines.reduce((sum, line) => sum + line.refundInCents, 0);
+  const clawbackInCents = clawbacks.reduce((sum, clawback) => sum + clawback.amountInCents, 0);
+  const shippingInCents = Object.values(getStoreShipping(cart)).reduce((sum, amount) => sum + amount, 0);
+  const shippingRefundInCents = refundsShipping
+    ? Math.max(0, shippingInCents - sumAllocations(applied.allocations, allocation => allocation.lineIndex === null))
+    : 0;
+
+  return {
+    lines,
+    clawbacks,
+    shippingRefundInCents,
+    refundInCents: Math.max(0, lineRefundInCents - clawbackInCents) + shippingRefundInCents,
+    releasedUsageKeys,
+  };
+}
@@ -0,0 +1,102 @@
+import type { Cart, Discount } from './types';
+import { explainDiscountEligibility, isWithinDateRange } from './discount';
+import { getNextActiveWindow, isWithinSchedule } from './schedule';
+import { validateDiscount } from './validation';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockCart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 2000 }] };
+
+const happyHour: Discount = {
+  id: 'd_happy', type: 'ORDER', amountType: 'PERCENTAGE', amount: 20, startsAt: TEST_START, isActive: true,
+  schedule: { timeZone: 'America/New_York', daysOfWeek: [5], timeWindows: [{ start: '17:00', end: '19:00' }] },
+};
+
+describe('isWithinSchedule', () => {
+  it('should read days and times in the schedule time zone', () => {
+    expect(isWithinDateRange(happyHour, new Date('2025-06-27T22:00:00Z'))).toBe(true); // Friday 18:00 in New York
+    expect(isWithinDateRange(happyHour, new Date('2025-06-27T20:00:00Z'))).toBe(false); // Friday 16:00
+    expect(isWithinDateRange(happyHour, new Date('2025-06-28T22:00:00Z'))).toBe(false); // Saturday 18:00
+  });
+
+  it('should keep windows that run past midnight open on the next day', () => {
+    const lateNight = { timeZone: 'Europe/Paris', daysOfWeek: [6], timeWindows: [{ start: '22:00', end: '02:00' }] };
+
+    expect(isWithinSchedule(lateNight, new Date('2025-06-28T23:30:00Z'))).toBe(true); // Sunday 01:30 in Paris
+    expect(isWithinSchedule(lateNight, new Date('2025-06-29T00:30:00Z'))).toBe(false); // Sunday 02:30
+    expect(isWithinSchedule(lateNight, new Date('2025-06-28T19:30:00Z'))).toBe(false); // Saturday 21:30
+  });
+});
+
+describe('getNextActiveWindow', () => {
+  it('should return the next window with its end for countdowns', () => {
+    expect(getNextActiveWindow(happyHour, new Date('2025-06-23T12:00:00Z'))).toEqual({
+      startsAt: new Date('2025-06-27T21:00:00Z'),
+      endsAt: new Date('2025-06-27T23:00:00Z'),
+    });
+    expect(getNextActiveWindow(happyHour, new Date('2025-06-27T22:00:00Z'))).toEqual({
+      startsAt: new Date('2025-06-27T22:00:00Z'),
+      endsAt: new Date('2025-06-27T23:00:00Z'),
+    });
+  });
+
+  it('should merge consecutive days and follow daylight saving changes', () => {
+    const decemberWeekends: Discount = { ...happyHour, schedule: { timeZone: 'Europe/London', daysOfWeek: [0, 6], months: [12] } };
+    expect(getNextActiveWindow(decemberWeekends, new Date('2025-06-23T12:00:00Z'))).toEqual({
+      startsAt: new Date('2025-12-06T00:00:00Z'),
+      endsAt: new Date('2025-12-08T00:00:00Z'),
+    });
+
+    const mornings: Discount = { ...happyHour, schedule: { timeZone: 'America/New_York', timeWindows: [{ start: '09:00', end: '10:00' }] } };
+    expect(getNextActiveWindow(mornings, new Date('2025-06-23T15:00:00Z'))?.startsAt).toEqual(new Date('2025-06-24T13:00:00Z'));
+    expect(getNextActiveWindow(mornings, new Date('2025-11-03T15:00:00Z'))?.startsAt).toEqual(new Date('2025-11-04T14:00:00Z'));
+  });
+
+  it('should start a window opening in a skipped hour when the clocks spring forward', () => {
+    const earlySunday: Discount = {
+      ...happyHour, startsAt: new Date('2025-01-01T00:00:00Z'),
+      schedule: { timeZone: 'America/New_York', daysOfWeek: [0], timeWindows: [{ start: '02:30', end: '03:30' }] },
+    };
+
+    // 02:00 to 03:00 does not exist on 9 March 2025 in New York, so the window opens at 03:00 EDT.
+    expect(getNextActiveWindow(earlySunday, new Date('2025-03-08T12:00:00Z'))).toEqual({
+      startsAt: new Date('2025-03-09T07:00:00Z'),
+      endsAt: new Date('2025-03-09T07:30:00Z'),
+    });
+    expect(isWithinSchedule(earlySunday.schedule!, new Date('2025-03-09T07:00:00Z'))).toBe(true);
+    expect(isWithinSchedule(earlySunday.schedule!, new Date('2025-03-09T06:59:00Z'))).toBe(false);
+  });
+
+  it('should stop at the end of the discount', () => {
+    const ending: Discount = { ...happyHour, endsAt: new Date('2025-06-27T22:00:00Z') };
+
+    expect(getNextActiveWindow(ending, new Date('2025-06-23T12:00:00Z'))?.endsAt).toEqual(new Date('2025-06-27T22:00:00Z'));
+    expect(getNextActiveWindow(ending, new Date('2025-06-27T22:30:00Z'))).toBeNull();
+  });
+});
+
+describe('Scheduled discount eligibility', () => {
+  it('should explain when a scheduled discount becomes active', () => {
+    const evaluation = explainDiscountEligibility(mockCart, happyHour, undefined, { now: new Date('2025-06-27T20:00:00Z') });
+
+    expect(evaluation.failures).toEqual([expect.objectContaining({ code: 'OUTSIDE_SCHEDULE', nextActiveAt: new Date('2025-06-27T21:00:00Z') })]);
+  });
+
+  it('should only scan up to the next window when explaining', () => {
+    const startedAt = Date.now();
+    for (let hour = 0; hour < 200; hour++) {
+      explainDiscountEligibility(mockCart, happyHour, undefined, { now: new Date(Date.UTC(2025, 5, 23, hour)) });
+    }
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it('should reject unknown time zones and malformed times', () => {
+    const invalid: Discount = { ...happyHour, schedule: { timeZone: 'Mars/Olympus', daysOfWeek: [7], timeWindows: [{ start: '5pm', end: '19:00' }] } };
+
+    expect(validateDiscount(invalid).errors.map(issue => issue.field)).toEqual([
+      'schedule.timeZone',
+      'schedule.daysOfWeek',
+      'schedule.timeWindows.0.start',
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import type { Discount, DiscountActiveWindow, DiscountSchedule } from "./types";
+
+export const DEFAULT_SCHEDULE_SEARCH_DAYS = 366;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+type LocalDay = { year: number; month: number; day: number };
+
+function createFormatter(timeZone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+}
+
+function getZonedParts(formatter: Intl.DateTimeFormat, date: Date): LocalDay & { minutes: number; seconds: number } {
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, minutes: parts.hour * 60 + parts.minute, seconds: parts.second };
+}
+
+function addDays({ year, month, day }: LocalDay, days: number): LocalDay {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+// Finds the instant a local wall-clock time occurs; times skipped by a DST change resolve to the end of the gap.
+function toInstant(formatter: Intl.DateTimeFormat, { year, month, day }: LocalDay, minutes: number): number {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offsetAt = (instant: number) => {
+    const parts = getZonedParts(formatter, new Date(instant));
+    return Date.UTC(parts.year, parts.month - 1, parts.day, 0, parts.minutes, parts.seconds) - instant;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  const instant = wallClock - offsetAt(guess);
+  if (wallClock - offsetAt(instant) === instant) return instant;
+
+  // The offsets before and after the gap each miss the wall-clock time; the clocks jump somewhere between the two guesses.
+  let before = Math.min(guess, instant);
+  let after = Math.max(guess, instant);
+  while (after - before > 60_000) {
+    const middle = before + Math.floor((after - before) / 120_000) * 60_000;
+    if (offsetAt(middle) === offsetAt(before)) before = middle;
+    else after = middle;
+  }
+  return after;
+}
+
+export function parseTimeOfDay(time: string): number {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  if (!match) {
+    throw new Error(`"${time}" is not a valid HH:mm time`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function matchesDay(schedule: DiscountSchedule, { year, month, day }: LocalDay): boolean {
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return (!schedule.daysOfWeek?.length || schedule.daysOfWeek.includes(dayOfWeek)) &&
+    (!schedule.daysOfMonth?.length || schedule.daysOfMonth.includes(day)) &&
+    (!schedule.months?.length || schedule.months.includes(month));
+}
+
+// Windows as [start, end) minutes from the start of the day they begin on; overnight windows end past 1440.
+function getWindowMinutes(schedule: DiscountSchedule): Array<[number, number]> {
+  if (!schedule.timeWindows?.length) return [[0, MINUTES_PER_DAY]];
+  return schedule.timeWindows.map(window => {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    return [start, end > start ? end : end + MINUTES_PER_DAY];
+  });
+}
+
+export function isWithinSchedule(schedule: DiscountSchedule, now: Date): boolean {
+  const { minutes, ...today } = getZonedParts(createFormatter(schedule.timeZone), now);
+  const yesterday = addDays(today, -1);
+  return getWindowMinutes(schedule).some(([start, end]) =>
+    (matchesDay(schedule, today) && minutes >= start && minutes < end) ||
+    (matchesDay(schedule, yesterday) && minutes + MINUTES_PER_DAY < end)
+  );
+}
+
+// The window the discount is active in at `now`, or the next one, so storefronts can count down to it.
+export function getNextActiveWindow(discount: Discount, now: Date, searchDays: number = DEFAULT_SCHEDULE_SEARCH_DAYS): DiscountActiveWindow | null {
+  if (discount.isActive === false) return null;
+  const from = Math.max(now.getTime(), discount.startsAt.getTime());
+  const until = discount.endsAt?.getTime() ?? Infinity;
+  if (from > until) return null;
+
+  const schedule = discount.schedule;
+  if (!schedule) {
+    return { startsAt: new Date(from), endsAt: discount.endsAt ?? null };
+  }
+
+  const formatter = createFormatter(schedule.timeZone);
+  const windows = getWindowMinutes(schedule).sort((a, b) => a[0] - b[0]);
+  const firstDay = addDays(getZonedParts(formatter, new Date(from)), -1);
+  const horizon = toInstant(formatter, addDays(firstDay, searchDays + 1), 0);
+  // Days are scanned in order and stop once the first window after `from` can no longer grow.
+  // Touching windows (e.g. Saturday then Sunday) count as one.
+  let next: [number, number] | null = null;
+  for (let offset = 0; offset <= searchDays; offset++) {
+    const day = addDays(firstDay, offset);
+    if (next && toInstant(formatter, day, 0) > next[1]) break;
+    if (!matchesDay(schedule, day)) continue;
+    for (const [startMinutes, endMinutes] of windows) {
+      const start = toInstant(formatter, day, startMinutes);
+      const end = toInstant(formatter, day, endMinutes);
+      if (next && start <= next[1]) {
+        next[1] = Math.max(next[1], end);
+      } else if (!next && end > from) {
+        next = [start, end];
+      } else if (next) {
+        break;
+      }
+    }
+  }
+
+  if (!next || next[0] > until) return null;
+  const endsAt = Math.min(next[1], until);
+  return {
+    startsAt: new Date(Math.max(next[0], from)),
+    endsAt: endsAt >= horizon ? null : new Date(endsAt),
+  };
+}
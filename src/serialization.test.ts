@@ -0,0 +1,61 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import {
+  DISCOUNT_SCHEMA_VERSION,
+  DiscountParseError,
+  parseCart,
+  parseDiscount,
+  parseDiscountContext,
+  serializeCart,
+  serializeDiscount,
+  serializeDiscountContext,
+} from './serialization';
+import { createInMemoryUsageStore } from './usage';
+
+describe('Discount serialization', () => {
+  const discount: Discount = {
+    id: 'd1',
+    code: 'SAVE10',
+    type: 'ORDER',
+    amountType: 'PERCENTAGE',
+    amount: 10,
+    tiers: [{ minimumPurchaseInCents: 5000, amount: 10 }],
+    startsAt: new Date('2025-06-22T00:00:00Z'),
+    endsAt: new Date('2025-06-24T00:00:00Z'),
+  };
+
+  it('should round-trip a discount through JSON with dates revived', () => {
+    const json = JSON.stringify(serializeDiscount(discount));
+
+    expect(JSON.parse(json)).toMatchObject({ schemaVersion: DISCOUNT_SCHEMA_VERSION, startsAt: '2025-06-22T00:00:00.000Z' });
+    expect(parseDiscount(json)).toEqual(discount);
+  });
+
+  it('should accept unversioned records and database nulls', () => {
+    const parsed = parseDiscount({ id: 'd1', type: 'ORDER', amountType: 'FIXED', amount: 500, startsAt: '2025-06-22T00:00:00Z', endsAt: null });
+
+    expect(parsed.startsAt).toEqual(new Date('2025-06-22T00:00:00Z'));
+    expect(parsed).not.toHaveProperty('endsAt');
+  });
+
+  it('should reject invalid dates and future schema versions', () => {
+    expect(() => parseDiscount({ id: 'd1', startsAt: 'tomorrow' })).toThrow(new DiscountParseError('startsAt is not a valid date', 'startsAt'));
+    expect(() => parseDiscount({ id: 'd1', startsAt: '2025-06-22T00:00:00Z', schemaVersion: DISCOUNT_SCHEMA_VERSION + 1 })).toThrow(DiscountParseError);
+    expect(() => parseDiscount('{not json')).toThrow('Discount is not valid JSON');
+  });
+
+  it('should reject records that are not valid discounts', () => {
+    const record = { ...serializeDiscount(discount), amount: -5 };
+
+    expect(() => parseDiscount(record)).toThrow(DiscountParseError);
+    expect(() => parseDiscount(record)).toThrow(expect.objectContaining({ field: 'amount', issues: [expect.objectContaining({ field: 'amount' })] }));
+  });
+
+  it('should round-trip carts and contexts', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: ['c1'], quantity: 2, priceInCents: 1000 }], shippingInCents: 500 };
+    const context: DiscountContext = { now: new Date('2025-06-23T12:00:00Z'), usageGlobal: { SAVE10: 3 } };
+
+    expect(parseCart(JSON.stringify(serializeCart(cart)))).toEqual(cart);
+    expect(parseDiscountContext(JSON.stringify(serializeDiscountContext(context)))).toEqual(context);
+    expect(serializeDiscountContext({ ...context, usageStore: createInMemoryUsageStore() })).not.toHaveProperty('usageStore');
+  });
+});
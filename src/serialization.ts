@@ -0,0 +1,128 @@
+import { validateDiscount } from "./validation";
+import type {
+  Cart,
+  Discount,
+  DiscountContext,
+  DiscountValidationIssue,
+  SerializedCart,
+  SerializedDiscount,
+  SerializedDiscountContext,
+} from "./types";
+
+export const DISCOUNT_SCHEMA_VERSION = 1;
+
+type JsonRecord = Record<string, unknown>;
+
+// Each entry upgrades a stored record from the keyed version to the next one.
+const DISCOUNT_MIGRATIONS: Record<number, (record: JsonRecord) => JsonRecord> = {};
+
+export class DiscountParseError extends Error {
+  readonly field?: string;
+  readonly issues: DiscountValidationIssue[]; // every validation error when the record parsed but is not a valid discount
+
+  constructor(message: string, field?: string, issues: DiscountValidationIssue[] = []) {
+    super(message);
+    this.name = 'DiscountParseError';
+    this.field = field;
+    this.issues = issues;
+  }
+}
+
+function toRecord(input: unknown, name: string): JsonRecord {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      throw new DiscountParseError(`${name} is not valid JSON`);
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new DiscountParseError(`${name} must be a JSON object`);
+  }
+  return value as JsonRecord;
+}
+
+function reviveDate(value: unknown, field: string): Date {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    throw new DiscountParseError(`${field} must be a date string`, field);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new DiscountParseError(`${field} is not a valid date`, field);
+  }
+  return date;
+}
+
+function getSchemaVersion(record: JsonRecord): number {
+  const version = record.schemaVersion ?? 1; // records stored before versioning are version 1
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new DiscountParseError('schemaVersion must be a positive whole number', 'schemaVersion');
+  }
+  if (version > DISCOUNT_SCHEMA_VERSION) {
+    throw new DiscountParseError(`schemaVersion ${version} is newer than supported version ${DISCOUNT_SCHEMA_VERSION}`, 'schemaVersion');
+  }
+  return version;
+}
+
+export function migrateSerializedDiscount(input: unknown): JsonRecord {
+  let record = toRecord(input, 'Discount');
+  for (let version = getSchemaVersion(record); version < DISCOUNT_SCHEMA_VERSION; version++) {
+    record = DISCOUNT_MIGRATIONS[version](record);
+  }
+  return { ...record, schemaVersion: DISCOUNT_SCHEMA_VERSION };
+}
+
+export function serializeDiscount(discount: Discount): SerializedDiscount {
+  const { startsAt, endsAt, ...rest } = discount;
+  return {
+    ...rest,
+    schemaVersion: DISCOUNT_SCHEMA_VERSION,
+    startsAt: startsAt.toISOString(),
+    ...(endsAt ? { endsAt: endsAt.toISOString() } : {}),
+  };
+}
+
+export function parseDiscount(input: unknown): Discount {
+  const { schemaVersion, startsAt, endsAt, ...rest } = migrateSerializedDiscount(input);
+  if (typeof rest.id !== 'string') {
+    throw new DiscountParseError('id must be a string', 'id');
+  }
+  const discount = {
+    ...rest,
+    startsAt: reviveDate(startsAt, 'startsAt'),
+    ...(endsAt !== undefined && endsAt !== null ? { endsAt: reviveDate(endsAt, 'endsAt') } : {}),
+  } as Discount;
+  const { errors } = validateDiscount(discount);
+  if (errors.length > 0) {
+    throw new DiscountParseError(`${errors[0].field}: ${errors[0].message}`, errors[0].field, errors);
+  }
+  return discount;
+}
+
+export function serializeCart(cart: Cart): SerializedCart {
+  return { ...cart, schemaVersion: DISCOUNT_SCHEMA_VERSION };
+}
+
+export function parseCart(input: unknown): Cart {
+  const record = toRecord(input, 'Cart');
+  getSchemaVersion(record);
+  const { schemaVersion, ...cart } = record;
+  if (!Array.isArray(cart.items)) {
+    throw new DiscountParseError('items must be an array', 'items');
+  }
+  return cart as Cart;
+}
+
+// The usage store is a live connection, not data, so it is left out.
+export function serializeDiscountContext(context: DiscountContext): SerializedDiscountContext {
+  const { usageStore, ...rest } = context;
+  return { ...rest, schemaVersion: DISCOUNT_SCHEMA_VERSION, now: context.now.toISOString() };
+}
+
+export function parseDiscountContext(input: unknown): DiscountContext {
+  const record = toRecord(input, 'DiscountContext');
+  getSchemaVersion(record);
+  const { schemaVersion, now, ...context } = record;
+  return { ...context, now: reviveDate(now, 'now') } as DiscountContext;
+}
@@ -0,0 +1,83 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { calculateDiscountAmount, explainDiscountEligibility } from './discount';
+import { priceShippingOptions } from './shipping';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const cart: Cart = {
+  storeId: 's1',
+  items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 6000 }],
+  shippingInCents: 1500,
+  selectedShippingOptionId: 'rate_express',
+  shippingOptions: [
+    { id: 'rate_standard', methodId: 'standard', carrier: 'DHL', priceInCents: 500, weightInGrams: 2000 },
+    { id: 'rate_express', methodId: 'express', carrier: 'UPS', priceInCents: 1500, weightInGrams: 2000 },
+    { id: 'rate_freight', methodId: 'freight', carrier: 'DHL', priceInCents: 4000, weightInGrams: 30000 },
+  ],
+};
+
+const freeStandard: Discount = { id: 'd_free_standard', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, shippingMethods: ['standard'], isAutomatic: true, startsAt: TEST_START, isActive: true };
+
+describe('Shipping discounts', () => {
+  it('should take a percentage off shipping instead of all of it', () => {
+    const quarterOff: Discount = { id: 'd_quarter', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 25, startsAt: TEST_START, isActive: true };
+    expect(calculateDiscountAmount(quarterOff, cart)).toBe(375);
+  });
+
+  it('should only apply to the targeted methods, carriers, rates and weights', () => {
+    expect(explainDiscountEligibility(cart, freeStandard, undefined, mockContext).failures).toEqual([{
+      check: 'isEligibleForShipping',
+      code: 'SHIPPING_NOT_ELIGIBLE',
+      message: 'Discount is not available for express shipping',
+      shippingOptionId: 'rate_express',
+      rule: 'shippingMethods',
+    }]);
+
+    const lightDhl: Discount = { id: 'd_light', type: 'SHIPPING', amountType: 'FIXED', amount: 300, shippingCarriers: ['DHL'], maximumShippingWeightInGrams: 5000, startsAt: TEST_START, isActive: true };
+    expect(explainDiscountEligibility({ ...cart, selectedShippingOptionId: 'rate_freight' }, lightDhl, undefined, mockContext).failures.map(failure => failure.message))
+      .toEqual(['Shipment is heavier than 5000g']);
+    expect(explainDiscountEligibility({ ...cart, shippingOptions: undefined }, lightDhl, undefined, mockContext).failures.map(failure => failure.code === 'SHIPPING_NOT_ELIGIBLE' && failure.rule))
+      .toEqual(['shippingCarriers', 'maximumShippingWeightInGrams']);
+  });
+
+  it('should re-price every shipping option with the discounts it qualifies for', () => {
+    const discounts: Discount[] = [
+      freeStandard,
+      { id: 'd_half', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 50, maximumShippingRateInCents: 2000, isAutomatic: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_dhl', code: 'DHL3', type: 'SHIPPING', amountType: 'FIXED', amount: 300, shippingCarriers: ['DHL'], startsAt: TEST_START, isActive: true },
+    ];
+
+    const prices = priceShippingOptions(cart, discounts, undefined, mockContext);
+
+    expect(prices.map(price => [price.option.id, price.discountInCents, price.priceInCents, price.isFree, price.discounts.map(discount => discount.id)])).toEqual([
+      ['rate_standard', 500, 0, true, ['d_free_standard']],
+      ['rate_express', 750, 750, false, ['d_half']],
+      ['rate_freight', 300, 3700, false, ['d_dhl']],
+    ]);
+  });
+
+  it('should check the rate ceiling against the shipping the discount is taken off', () => {
+    const capped: Discount = { id: 'd_capped', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 50, maximumShippingRateInCents: 2000, startsAt: TEST_START, isActive: true };
+
+    expect(explainDiscountEligibility({ ...cart, shippingInCents: 2500 }, capped, undefined, mockContext).failures.map(failure => failure.message))
+      .toEqual(['Shipping rate is above 2000 cents']);
+  });
+
+  it('should split each option over the stores of a marketplace cart', () => {
+    const marketplaceCart: Cart = {
+      ...cart,
+      storeId: 'platform',
+      shippingByStore: { artisan_a: 500, artisan_b: 1000 },
+      items: [
+        { variantId: 'v_vase', collectionIds: [], quantity: 1, priceInCents: 4000, storeId: 'artisan_a' },
+        { variantId: 'v_mug', collectionIds: [], quantity: 1, priceInCents: 2000, storeId: 'artisan_b' },
+      ],
+    };
+    const storeShipping: Discount = { id: 'd_a_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, storeId: 'artisan_a', isAutomatic: true, startsAt: TEST_START, isActive: true };
+
+    const prices = priceShippingOptions(marketplaceCart, [storeShipping], undefined, mockContext);
+
+    expect(prices.map(price => [price.option.id, price.discountInCents])).toEqual([['rate_standard', 167], ['rate_express', 500], ['rate_freight', 1333]]);
+  });
+});
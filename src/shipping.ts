@@ -0,0 +1,42 @@
+import { allocateProportionally } from "./allocation";
+import { applyDiscounts, evaluateDiscounts } from "./discount";
+import type { Cart, Customer, Discount, DiscountContext, ShippingOptionPrice } from "./types";
+
+// An option prices the whole shipment; marketplace carts split it over the stores in the same proportions as the current
+// rate, evenly when nothing is charged yet, so store shipping discounts still see their store's part.
+function getOptionShippingByStore(cart: Cart, priceInCents: number): Record<string, number> | undefined {
+  if (!cart.shippingByStore) return undefined;
+  const storeIds = Object.keys(cart.shippingByStore);
+  const charges = storeIds.map(storeId => cart.shippingByStore![storeId]);
+  const weights = charges.some(charge => charge > 0) ? charges : charges.map(() => 1);
+  const shares = allocateProportionally(priceInCents, weights);
+  return Object.fromEntries(storeIds.map((storeId, index) => [storeId, shares[index]]));
+}
+
+// Prices every shipping option as if it were selected, so each option runs the whole pipeline and keeps the best combination for it.
+export function priceShippingOptions(
+  cart: Cart,
+  discounts: Discount[],
+  customer?: Customer,
+  context?: DiscountContext
+): ShippingOptionPrice[] {
+  return (cart.shippingOptions ?? []).map(option => {
+    const optionCart: Cart = {
+      ...cart,
+      shippingInCents: option.priceInCents,
+      shippingByStore: getOptionShippingByStore(cart, option.priceInCents),
+      selectedShippingOptionId: option.id,
+    };
+    const eligibleDiscounts = evaluateDiscounts(optionCart, discounts, customer, context);
+    const result = applyDiscounts(optionCart, eligibleDiscounts, { customer, context, exchangeRates: context?.exchangeRates });
+    const discountInCents = Math.min(option.priceInCents, result.shippingDiscountInCents);
+    return {
+      option,
+      originalPriceInCents: option.priceInCents,
+      discountInCents,
+      priceInCents: option.priceInCents - discountInCents,
+      isFree: option.priceInCents - discountInCents === 0,
+      discounts: result.appliedDiscounts.filter(discount => discount.type === 'SHIPPING'),
+    };
+  });
+}
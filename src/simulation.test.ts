@@ -0,0 +1,59 @@
+import type { Discount, DiscountContext, SimulationCart } from './types';
+import { simulateDiscounts } from './simulation';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const existing: Discount[] = [
+  { id: 'd_auto', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, isAutomatic: true, startsAt: TEST_START, isActive: true },
+];
+
+const proposed: Discount[] = [
+  { id: 'd_new', type: 'ORDER', amountType: 'FIXED', amount: 2000, minimumPurchaseInCents: 5000, startsAt: TEST_START, isActive: true },
+  { id: 'd_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, countryCodes: ['US'], startsAt: TEST_START, isActive: true },
+];
+
+const history: SimulationCart[] = [
+  { cart: { storeId: 's1', shippingInCents: 500, shippingCountryCode: 'US', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 10000 }] }, context: mockContext },
+  { cart: { storeId: 's1', shippingInCents: 500, items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 3000 }] }, context: mockContext },
+  { cart: { storeId: 's1', shippingInCents: 800, shippingCountryCode: 'US', items: [{ variantId: 'v2', collectionIds: [], quantity: 3, priceInCents: 10000 }] }, context: mockContext },
+];
+
+describe('Discount simulation', () => {
+  it('should report what the proposed discounts would have cost', () => {
+    const simulation = simulateDiscounts(history, proposed, existing);
+
+    expect(simulation).toMatchObject({
+      cartCount: 3,
+      qualifyingCartCount: 2,
+      appliedCartCount: 2,
+      totalDiscountInCents: 3300,
+      averageDiscountInCents: 1650,
+      incrementalDiscountInCents: 2300,
+      discountByType: { ORDER: 2000, SHIPPING: 1300 },
+    });
+  });
+
+  it('should explain per discount how often it won, lost and was rejected', () => {
+    const [order, shipping] = simulateDiscounts(history, proposed, existing).discounts;
+
+    expect(order).toMatchObject({
+      qualifyingCartCount: 2,
+      appliedCartCount: 1,
+      blockedCartCount: 1,
+      displacedCartCount: 1,
+      totalDiscountInCents: 2000,
+      averageDiscountInCents: 2000,
+      rejections: { MINIMUM_PURCHASE_NOT_MET: 1 },
+      blockedBy: { d_auto: 1 },
+    });
+    expect(shipping).toMatchObject({
+      qualifyingCartCount: 2,
+      appliedCartCount: 2,
+      blockedCartCount: 0,
+      displacedCartCount: 0,
+      averageDiscountInCents: 650,
+      rejections: { COUNTRY_NOT_ELIGIBLE: 1 },
+    });
+  });
+});
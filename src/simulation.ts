@@ -0,0 +1,92 @@
+import { sumAllocations } from "./allocation";
+import { canShareCombination } from "./combination";
+import { getDiscountSummary } from "./discount";
+import type {
+  ApplyDiscountsOptions,
+  Discount,
+  DiscountSimulation,
+  DiscountSimulationEntry,
+  SimulationCart,
+} from "./types";
+
+function getAverage(totalInCents: number, count: number): number {
+  return count === 0 ? 0 : Math.round(totalInCents / count);
+}
+
+// Replays historical carts with and without the proposed discounts to estimate what launching them would cost.
+export function simulateDiscounts(
+  carts: SimulationCart[],
+  proposed: Discount[],
+  existing: Discount[] = [],
+  options?: ApplyDiscountsOptions
+): DiscountSimulation {
+  const entries: DiscountSimulationEntry[] = proposed.map(discount => ({
+    discount,
+    qualifyingCartCount: 0,
+    appliedCartCount: 0,
+    blockedCartCount: 0,
+    displacedCartCount: 0,
+    totalDiscountInCents: 0,
+    averageDiscountInCents: 0,
+    rejections: {},
+    blockedBy: {},
+  }));
+  const simulation: DiscountSimulation = {
+    cartCount: carts.length,
+    qualifyingCartCount: 0,
+    appliedCartCount: 0,
+    totalDiscountInCents: 0,
+    averageDiscountInCents: 0,
+    incrementalDiscountInCents: 0,
+    discountByType: {},
+    discounts: entries,
+  };
+
+  for (const { cart, customer, context } of carts) {
+    const baseline = getDiscountSummary(cart, existing, customer, context, options);
+    const summary = getDiscountSummary(cart, [...existing, ...proposed], customer, context, options);
+    const baselineApplied = baseline.discountBreakdown.filter(entry => entry.applied).map(entry => entry.discount);
+    const existingApplied = summary.discountBreakdown.slice(0, existing.length).filter(entry => entry.applied).map(entry => entry.discount);
+    const proposedBreakdown = summary.discountBreakdown.slice(existing.length);
+
+    proposedBreakdown.forEach(({ discount, eligible, applied, amount, failures }, index) => {
+      const entry = entries[index];
+      if (!eligible) {
+        for (const code of new Set(failures.map(failure => failure.code))) {
+          entry.rejections[code] = (entry.rejections[code] ?? 0) + 1;
+        }
+        return;
+      }
+      entry.qualifyingCartCount++;
+      if (applied) {
+        entry.appliedCartCount++;
+        entry.totalDiscountInCents += amount;
+        const displaced = baselineApplied.some(existingDiscount =>
+          !existingApplied.includes(existingDiscount) && !canShareCombination(discount, existingDiscount)
+        );
+        if (displaced) entry.displacedCartCount++;
+        return;
+      }
+      entry.blockedCartCount++;
+      const conflicting = existingApplied.filter(existingDiscount => !canShareCombination(discount, existingDiscount));
+      for (const winner of conflicting.length > 0 ? conflicting : existingApplied) {
+        entry.blockedBy[winner.id] = (entry.blockedBy[winner.id] ?? 0) + 1;
+      }
+    });
+
+    const proposedAllocations = summary.allocations.filter(allocation => proposed.some(discount => discount.id === allocation.discountId));
+    if (proposedBreakdown.some(entry => entry.eligible)) simulation.qualifyingCartCount++;
+    if (proposedAllocations.length > 0) simulation.appliedCartCount++;
+    simulation.totalDiscountInCents += sumAllocations(proposedAllocations);
+    simulation.incrementalDiscountInCents += summary.totalDiscountAmount - baseline.totalDiscountAmount;
+    for (const allocation of proposedAllocations) {
+      simulation.discountByType[allocation.discountType] = (simulation.discountByType[allocation.discountType] ?? 0) + allocation.amountInCents;
+    }
+  }
+
+  for (const entry of entries) {
+    entry.averageDiscountInCents = getAverage(entry.totalDiscountInCents, entry.appliedCartCount);
+  }
+  simulation.averageDiscountInCents = getAverage(simulation.totalDiscountInCents, simulation.appliedCartCount);
+  return simulation;
+}
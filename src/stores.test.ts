@@ -0,0 +1,73 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { applyDiscounts, evaluateDiscountsWithReasons, getDiscountSummary } from './discount';
+import { calculateTotals } from './totals';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const marketplaceCart: Cart = {
+  storeId: 'platform',
+  shippingInCents: 1200,
+  shippingByStore: { artisan_a: 500, artisan_b: 700 },
+  items: [
+    { variantId: 'v_vase', collectionIds: [], quantity: 1, priceInCents: 4000, storeId: 'artisan_a' },
+    { variantId: 'v_mug', collectionIds: [], quantity: 2, priceInCents: 2000, storeId: 'artisan_b' },
+  ],
+};
+
+describe('Marketplace carts', () => {
+  it('should scope store discounts to their store and compute each payout', () => {
+    const discounts: Discount[] = [
+      { id: 'd_a', type: 'ORDER', amountType: 'FIXED', amount: 1000, storeId: 'artisan_a', minimumPurchaseInCents: 3000, combineWithOrderDiscounts: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_b', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, storeId: 'artisan_b', minimumPurchaseInCents: 5000, startsAt: TEST_START, isActive: true },
+      { id: 'd_ship_b', type: 'SHIPPING', amountType: 'FIXED', amount: 700, storeId: 'artisan_b', startsAt: TEST_START, isActive: true },
+      { id: 'd_platform', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, combineWithOrderDiscounts: true, startsAt: TEST_START, isActive: true },
+    ];
+
+    const summary = getDiscountSummary(marketplaceCart, discounts, undefined, mockContext);
+
+    expect(summary.discountBreakdown[1].failures).toEqual([expect.objectContaining({ code: 'MINIMUM_PURCHASE_NOT_MET', shortfallInCents: 1000 })]);
+    expect(summary.allocations.map(allocation => [allocation.discountId, allocation.storeId, allocation.fundedBy, allocation.amountInCents])).toEqual([
+      ['d_a', 'artisan_a', 'STORE', 1000],
+      ['d_platform', 'artisan_a', 'PLATFORM', 300],
+      ['d_platform', 'artisan_b', 'PLATFORM', 400],
+      ['d_ship_b', 'artisan_b', 'STORE', 700],
+    ]);
+    expect(summary.stores).toEqual([
+      { storeId: 'artisan_a', subtotalInCents: 4000, shippingInCents: 500, discountInCents: 1300, shippingDiscountInCents: 0, storeFundedDiscountInCents: 1000, platformFundedDiscountInCents: 300, payoutInCents: 3500 },
+      { storeId: 'artisan_b', subtotalInCents: 4000, shippingInCents: 700, discountInCents: 1100, shippingDiscountInCents: 700, storeFundedDiscountInCents: 700, platformFundedDiscountInCents: 400, payoutInCents: 4000 },
+    ]);
+  });
+
+  it('should keep store product discounts on their own items and split platform shipping discounts', () => {
+    const discounts: Discount[] = [
+      { id: 'd_mugs', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 25, applyToAllProducts: true, storeId: 'artisan_b', startsAt: TEST_START, isActive: true },
+      { id: 'd_free_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, fundedBy: 'PLATFORM', startsAt: TEST_START, isActive: true },
+    ];
+
+    const result = applyDiscounts(marketplaceCart, discounts);
+
+    expect(result.allocations.map(allocation => [allocation.discountId, allocation.storeId, allocation.amountInCents])).toEqual([
+      ['d_mugs', 'artisan_b', 1000],
+      ['d_free_ship', 'artisan_a', 500],
+      ['d_free_ship', 'artisan_b', 700],
+    ]);
+    expect(result.stores.map(store => store.payoutInCents)).toEqual([4500, 3700]);
+  });
+
+  it('should total shipping from the stores\' charges', () => {
+    const freeShipping: Discount = { id: 'd_free_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, startsAt: TEST_START, isActive: true };
+
+    const totals = calculateTotals({ ...marketplaceCart, shippingInCents: undefined }, [freeShipping], undefined, mockContext);
+
+    expect(totals).toMatchObject({ shippingInCents: 1200, shippingDiscountInCents: 1200, shippingAfterDiscountInCents: 0 });
+  });
+
+  it('should report a store discount when the store sells nothing in the cart', () => {
+    const discount: Discount = { id: 'd_c', type: 'ORDER', amountType: 'FIXED', amount: 500, storeId: 'artisan_c', startsAt: TEST_START, isActive: true };
+
+    const [evaluation] = evaluateDiscountsWithReasons(marketplaceCart, [discount], undefined, mockContext);
+
+    expect(evaluation.failures).toEqual([expect.objectContaining({ code: 'STORE_NOT_IN_CART', storeId: 'artisan_c' })]);
+  });
+});
@@ -0,0 +1,51 @@
+import { sumAllocations } from "./allocation";
+import type { Cart, CartItem, Discount, DiscountAllocation, DiscountFunding, StoreDiscountResult } from "./types";
+
+export function getItemStoreId(cart: Cart, item: CartItem): string {
+  return item.storeId ?? cart.storeId;
+}
+
+export function getDiscountFunding(discount: Discount): DiscountFunding {
+  return discount.fundedBy ?? (discount.storeId ? 'STORE' : 'PLATFORM');
+}
+
+export function getStoreShipping(cart: Cart): Record<string, number> {
+  return cart.shippingByStore ?? { [cart.storeId]: cart.shippingInCents ?? 0 };
+}
+
+// Stores in the order they appear, including ones that only charge shipping.
+export function getStoreIds(cart: Cart): string[] {
+  const storeIds = cart.items.map(item => getItemStoreId(cart, item));
+  return [...new Set([...storeIds, ...Object.keys(getStoreShipping(cart))])];
+}
+
+// The part of a marketplace cart sold by one store, as if it were checked out on its own.
+export function getStoreCart(cart: Cart, storeId: string): Cart {
+  return {
+    ...cart,
+    storeId,
+    items: cart.items.filter(item => getItemStoreId(cart, item) === storeId),
+    shippingInCents: getStoreShipping(cart)[storeId] ?? 0,
+    shippingByStore: undefined,
+  };
+}
+
+export function getStoreResults(cart: Cart, allocations: DiscountAllocation[]): StoreDiscountResult[] {
+  const storeShipping = getStoreShipping(cart);
+  return getStoreIds(cart).map(storeId => {
+    const inStore = (allocation: DiscountAllocation) => allocation.storeId === storeId;
+    const subtotalInCents = getStoreCart(cart, storeId).items.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0);
+    const shippingInCents = storeShipping[storeId] ?? 0;
+    const storeFundedDiscountInCents = sumAllocations(allocations, allocation => inStore(allocation) && allocation.fundedBy === 'STORE');
+    return {
+      storeId,
+      subtotalInCents,
+      shippingInCents,
+      discountInCents: sumAllocations(allocations, inStore),
+      shippingDiscountInCents: sumAllocations(allocations, allocation => inStore(allocation) && allocation.lineIndex === null),
+      storeFundedDiscountInCents,
+      platformFundedDiscountInCents: sumAllocations(allocations, allocation => inStore(allocation) && allocation.fundedBy === 'PLATFORM'),
+      payoutInCents: subtotalInCents + shippingInCents - storeFundedDiscountInCents,
+    };
+  });
+}
@@ -0,0 +1,100 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { exportStripeDiscounts } from './stripe';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const TEST_END = new Date('2025-07-01T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const cart: Cart = {
+  storeId: 's1',
+  currency: 'EUR',
+  shippingInCents: 900,
+  items: [
+    { variantId: 'v_shirt', collectionIds: ['c_summer'], quantity: 2, priceInCents: 3000 },
+    { variantId: 'v_hat', collectionIds: ['c_summer'], quantity: 1, priceInCents: 2000, compareAtPriceInCents: 2500 },
+    { variantId: 'v_socks', collectionIds: [], quantity: 1, priceInCents: 1000 },
+  ],
+};
+
+describe('Stripe export', () => {
+  it('should export eligible discounts as coupon, promotion code and shipping rate params', () => {
+    const discounts: Discount[] = [
+      { id: 'd_auto', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, isAutomatic: true, combineWithOrderDiscounts: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_big', code: 'BIG50', type: 'ORDER', amountType: 'FIXED', amount: 5000, minimumPurchaseInCents: 20000, startsAt: TEST_START, isActive: true },
+      {
+        id: 'd_code', code: 'WELCOME', type: 'ORDER', amountType: 'FIXED', amount: 1500, currency: 'EUR', amountsByCurrency: { GBP: { amount: 1300 } }, combineWithOrderDiscounts: true,
+        minimumPurchaseInCents: 5000, maximumUses: 100, customerSegment: { firstOrderOnly: true }, startsAt: TEST_START, endsAt: TEST_END, isActive: true,
+      },
+      { id: 'd_small', code: 'FIVE', type: 'ORDER', amountType: 'FIXED', amount: 500, startsAt: TEST_START, isActive: true },
+      { id: 'd_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, maximumAmountForShippingInCents: 600, isAutomatic: true, startsAt: TEST_START, isActive: true },
+    ];
+
+    const exported = exportStripeDiscounts(cart, discounts, { id: 'c1' }, mockContext);
+
+    expect(exported.ineligible.map(evaluation => [evaluation.discount.id, evaluation.failures[0].code])).toEqual([['d_big', 'MINIMUM_PURCHASE_NOT_MET']]);
+    expect(exported.notExported.map(discount => discount.id)).toEqual(['d_small']);
+    expect(exported.automatic?.coupon).toEqual({ id: 'd_auto', duration: 'once', percent_off: 10, metadata: { discount_id: 'd_auto' } });
+    expect(exported.coupon).toMatchObject({
+      amountInCents: 1500,
+      coupon: {
+        id: 'd_code', name: 'WELCOME', duration: 'once', amount_off: 1500, currency: 'eur',
+        currency_options: { gbp: { amount_off: 1300 } }, max_redemptions: 100, redeem_by: 1751328000,
+      },
+      promotionCode: {
+        coupon: 'd_code', code: 'WELCOME', active: true, expires_at: 1751328000,
+        restrictions: { first_time_transaction: true, minimum_amount: 5000, minimum_amount_currency: 'eur' },
+      },
+      lossyFeatures: [],
+    });
+    expect(exported.shipping?.shippingRate).toEqual({
+      display_name: 'Shipping', type: 'fixed_amount', fixed_amount: { amount: 300, currency: 'eur' }, metadata: { discount_id: 'd_ship' },
+    });
+  });
+
+  it('should report what a Stripe coupon cannot represent', () => {
+    const discount: Discount = {
+      id: 'd_summer', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 50, collections: ['c_summer'], excludeItemsOnSale: true,
+      maximumDiscountInCents: 2000, customerSegment: { tags: ['vip'] }, isAutomatic: true, startsAt: TEST_START, isActive: true,
+    };
+
+    const { automatic } = exportStripeDiscounts(cart, [discount], { id: 'c1', tags: ['vip'] }, mockContext, { productIds: { v_shirt: 'prod_shirt' } });
+
+    expect(automatic?.coupon).toMatchObject({ amount_off: 2000, currency: 'eur', applies_to: { products: ['prod_shirt'] } });
+    expect(automatic?.coupon.percent_off).toBeUndefined();
+    expect(automatic?.lossyFeatures.map(entry => entry.feature)).toEqual(['AMOUNT_CAP', 'COLLECTIONS', 'EXCLUSIONS', 'CUSTOMER_SEGMENT']);
+  });
+
+  it('should export buy X get Y offers at their value for this cart', () => {
+    const discount: Discount = {
+      id: 'd_bxgy', code: 'SOCKS', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0,
+      buy: { variants: ['v_shirt'], quantity: 2 }, get: { variants: ['v_socks'], quantity: 1, amountType: 'FREE' },
+      countryCodes: ['DE'], startsAt: TEST_START, isActive: true,
+    };
+
+    const exported = exportStripeDiscounts({ ...cart, shippingCountryCode: 'DE' }, [discount], undefined, mockContext);
+
+    expect(exported.coupon?.coupon).toMatchObject({ amount_off: 1000, currency: 'eur' });
+    expect(exported.coupon?.lossyFeatures.map(entry => entry.feature)).toEqual(['BUY_X_GET_Y', 'COUNTRIES']);
+    expect(exportStripeDiscounts(cart, [discount], undefined, mockContext).coupon).toBeNull();
+  });
+
+  it('should only export combinable discounts and map customers to Stripe IDs', () => {
+    const discounts: Discount[] = [
+      { id: 'd_auto', type: 'ORDER', amountType: 'PERCENTAGE', amount: 20, isAutomatic: true, exclusive: true, startsAt: TEST_START, isActive: true },
+      { id: 'd_vip', code: 'VIP', type: 'ORDER', amountType: 'FIXED', amount: 1000, customers: ['c1'], startsAt: TEST_START, isActive: true },
+      { id: 'd_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, isAutomatic: true, startsAt: TEST_START, isActive: true },
+    ];
+
+    const exported = exportStripeDiscounts(cart, discounts, { id: 'c1' }, mockContext, { customerIds: { c1: 'cus_123' } });
+
+    expect(exported.automatic).toBeNull();
+    expect(exported.coupon?.promotionCode?.customer).toBe('cus_123');
+    expect(exported.coupon?.lossyFeatures).toEqual([]);
+    expect(exported.shipping?.discount.id).toBe('d_ship');
+    expect(exported.notExported.map(discount => discount.id)).toEqual(['d_auto']);
+
+    const unmapped = exportStripeDiscounts(cart, discounts.slice(1), { id: 'c1' }, mockContext);
+    expect(unmapped.coupon?.promotionCode?.customer).toBeUndefined();
+    expect(unmapped.coupon?.lossyFeatures).toEqual([{ feature: 'CUSTOMERS', message: 'Customer c1 has no Stripe customer ID' }]);
+  });
+});
@@ -0,0 +1,266 @@
+import { calculateDiscountAmount, evaluateDiscountsWithReasons, isItemEligibleForProductDiscount, resolveStripeCompatibleDiscounts } from "./discount";
+import { localizeDiscount } from "./currency";
+import { getStoreCart } from "./stores";
+import { getEffectiveDiscountAmount } from "./tiers";
+import type {
+  Cart,
+  Customer,
+  Discount,
+  DiscountContext,
+  StripeCouponParams,
+  StripeDiscountExport,
+  StripeExport,
+  StripeExportOptions,
+  StripeLossyFeature,
+  StripeLossyFeatureCode,
+  StripePromotionCodeParams,
+  StripeShippingRateExport,
+} from "./types";
+
+type ExportInput = {
+  cart: Cart;
+  customer?: Customer;
+  context?: DiscountContext;
+  options: StripeExportOptions;
+};
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+// Localized discounts are already in the cart's currency when it has one.
+function getCurrency(discount: Discount, input: ExportInput): string {
+  return (input.cart.currency ?? discount.currency ?? input.options.currency ?? 'usd').toLowerCase();
+}
+
+function hasExclusions(discount: Discount): boolean {
+  return !!discount.excludedVariants?.length || !!discount.excludedCollections?.length || !!discount.excludeItemsOnSale;
+}
+
+// Restrictions Stripe has no field for, whatever the discount type; eligibility already checked them against this cart.
+function getRestrictionLossyFeatures(discount: Discount, promotionCode: StripePromotionCodeParams | null): StripeLossyFeature[] {
+  const features: StripeLossyFeature[] = [];
+  const hasPromotionCode = promotionCode !== null;
+  const add = (feature: StripeLossyFeatureCode, message: string) => features.push({ feature, message });
+  const segment = discount.customerSegment;
+
+  if (discount.minimumPurchaseInCents && !hasPromotionCode) {
+    add('MINIMUM_PURCHASE', 'Coupons have no minimum amount, only promotion codes do');
+  }
+  if (discount.minimumQuantity) add('MINIMUM_QUANTITY', `Requires ${discount.minimumQuantity} items, which Stripe cannot check`);
+  if (discount.customers && discount.customers.length > 1) {
+    add('CUSTOMERS', 'Stripe limits a promotion code to a single customer');
+  } else if (discount.customers?.length && !promotionCode?.customer) {
+    add('CUSTOMERS', hasPromotionCode ? `Customer ${discount.customers[0]} has no Stripe customer ID` : 'Only promotion codes can be limited to a customer');
+  }
+  if (discount.excludedCustomers?.length || discount.excludedCustomerTags?.length) {
+    add('CUSTOMERS', 'Stripe cannot exclude customers');
+  }
+  if (segment?.firstOrderOnly && !hasPromotionCode) {
+    add('CUSTOMER_SEGMENT', 'Only promotion codes can be limited to first orders');
+  }
+  if (segment && Object.entries(segment).some(([rule, value]) => rule !== 'firstOrderOnly' && value !== undefined)) {
+    add('CUSTOMER_SEGMENT', 'Stripe cannot target customer tags, email domains, order counts or lifetime spend');
+  }
+  if (discount.limitOncePerCustomer || discount.maximumUsesPerCustomer) {
+    add('PER_CUSTOMER_LIMIT', 'Stripe only limits total redemptions');
+  }
+  if (discount.countryCodes?.length && !discount.applyToAllCountries) {
+    add('COUNTRIES', `Limited to ${discount.countryCodes.join(', ')}, which Stripe cannot check`);
+  }
+  if (discount.schedule) add('SCHEDULE', 'Recurring windows are not exported, only endsAt');
+  if (discount.condition) add('CONDITION', 'The condition tree was only checked against this cart');
+  return features;
+}
+
+// Amount terms of the coupon; anything Stripe cannot compute itself is exported as what the discount takes off this cart.
+function getCouponTerms(
+  discount: Discount,
+  cart: Cart,
+  amountInCents: number,
+  currency: string,
+  features: StripeLossyFeature[]
+): Pick<StripeCouponParams, 'percent_off' | 'amount_off' | 'currency' | 'currency_options'> {
+  const add = (feature: StripeLossyFeatureCode, message: string) => features.push({ feature, message });
+  const cartAmountMessage = 'exported as the amount it takes off this cart';
+  let isCartSpecific = false;
+
+  if (discount.type === 'BXGY') {
+    add('BUY_X_GET_Y', `Buy X get Y offers are ${cartAmountMessage}`);
+    isCartSpecific = true;
+  } else if (discount.type === 'BUNDLE') {
+    add('BUNDLE', `Bundles are ${cartAmountMessage}`);
+    isCartSpecific = true;
+  } else if (discount.amountType === 'FIXED_PRICE') {
+    add('FIXED_PRICE', `Fixed prices are ${cartAmountMessage}`);
+    isCartSpecific = true;
+  } else if (discount.type === 'PRODUCT' && discount.amountType === 'FIXED') {
+    add('PER_UNIT_AMOUNT', `Stripe takes amount_off once rather than per unit, so it is ${cartAmountMessage}`);
+    isCartSpecific = true;
+  }
+  if (discount.tiers?.length) {
+    add('TIERS', 'Exported at the tier this cart reaches');
+    isCartSpecific ||= discount.type !== 'ORDER';
+  }
+  if (discount.maximumDiscountedQuantity !== undefined) {
+    add('QUANTITY_CAP', `Discounted quantity caps are ${cartAmountMessage}`);
+    isCartSpecific = true;
+  }
+  if (discount.maximumDiscountInCents !== undefined) {
+    add('AMOUNT_CAP', `Amount caps are ${cartAmountMessage}`);
+    isCartSpecific = true;
+  }
+  if (discount.storeId) {
+    add('STORE', `Stripe discounts the whole checkout, so the store discount is ${cartAmountMessage}`);
+    isCartSpecific = true;
+  }
+
+  if (isCartSpecific) return { amount_off: amountInCents, currency };
+
+  const { amountType, amount } = getEffectiveDiscountAmount(
+    discount,
+    cart.items.reduce((sum, item) => sum + item.priceInCents * item.quantity, 0),
+    cart.items.reduce((sum, item) => sum + item.quantity, 0)
+  );
+  if (amountType === 'PERCENTAGE') return { percent_off: amount };
+
+  const currencyOptions = Object.entries(discount.amountsByCurrency ?? {})
+    .filter(([code, amounts]) => amounts.amount !== undefined && code.toLowerCase() !== currency && !discount.tiers?.length)
+    .map(([code, amounts]) => [code.toLowerCase(), { amount_off: amounts.amount! }] as const);
+  return {
+    amount_off: amount,
+    currency,
+    ...(currencyOptions.length > 0 ? { currency_options: Object.fromEntries(currencyOptions) } : {}),
+  };
+}
+
+// Plain variant lists map one to one; collections and exclusions are expanded to the matching products in this cart.
+function getAppliesTo(discount: Discount, input: ExportInput, features: StripeLossyFeature[]): StripeCouponParams['applies_to'] {
+  if (discount.type !== 'PRODUCT') return undefined;
+  const { cart, customer, context, options } = input;
+  const isPlainVariantList = !discount.applyToAllProducts && !discount.collections?.length && !hasExclusions(discount) && !discount.condition;
+  if (discount.applyToAllProducts && !hasExclusions(discount) && !discount.condition && !discount.storeId) return undefined;
+
+  let variantIds = discount.variants ?? [];
+  if (!isPlainVariantList) {
+    if (discount.collections?.length) {
+      features.push({ feature: 'COLLECTIONS', message: 'Collections are exported as the matching products in this cart' });
+    }
+    if (hasExclusions(discount)) {
+      features.push({ feature: 'EXCLUSIONS', message: 'Exclusions are exported as the remaining products in this cart' });
+    }
+    const scopedCart = discount.storeId ? getStoreCart(cart, discount.storeId) : cart;
+    variantIds = scopedCart.items
+      .filter(item => isItemEligibleForProductDiscount(discount, item, { cart: scopedCart, customer, context }))
+      .map(item => item.variantId);
+  }
+  return { products: [...new Set(variantIds.map(variantId => options.productIds?.[variantId] ?? variantId))] };
+}
+
+// Stripe customer IDs start with cus_, other IDs need an entry in customerIds.
+function getStripeCustomerId(customerId: string, options: StripeExportOptions): string | undefined {
+  return options.customerIds?.[customerId] ?? (customerId.startsWith('cus_') ? customerId : undefined);
+}
+
+function getPromotionCode(discount: Discount, currency: string, options: StripeExportOptions): StripePromotionCodeParams | null {
+  if (!discount.code) return null;
+  const customer = discount.customers?.length === 1 ? getStripeCustomerId(discount.customers[0], options) : undefined;
+  const restrictions: StripePromotionCodeParams['restrictions'] = {};
+  if (discount.customerSegment?.firstOrderOnly) restrictions.first_time_transaction = true;
+  if (discount.minimumPurchaseInCents) {
+    restrictions.minimum_amount = discount.minimumPurchaseInCents;
+    restrictions.minimum_amount_currency = currency;
+  }
+  return {
+    coupon: discount.id,
+    code: discount.code,
+    active: discount.isActive !== false,
+    ...(customer ? { customer } : {}),
+    ...(discount.endsAt ? { expires_at: toUnixSeconds(discount.endsAt) } : {}),
+    ...(Object.keys(restrictions).length > 0 ? { restrictions } : {}),
+    metadata: { discount_id: discount.id },
+  };
+}
+
+function exportCoupon(original: Discount, discount: Discount, input: ExportInput): StripeDiscountExport {
+  const { cart, customer, context } = input;
+  const currency = getCurrency(discount, input);
+  const amountInCents = calculateDiscountAmount(discount, cart, undefined, customer, context);
+  const promotionCode = getPromotionCode(discount, currency, input.options);
+  const lossyFeatures: StripeLossyFeature[] = [];
+  const terms = getCouponTerms(discount, cart, amountInCents, currency, lossyFeatures);
+  const appliesTo = getAppliesTo(discount, input, lossyFeatures);
+  lossyFeatures.push(...getRestrictionLossyFeatures(discount, promotionCode));
+
+  return {
+    discount: original,
+    amountInCents,
+    coupon: {
+      id: discount.id,
+      ...(discount.description || discount.code ? { name: discount.description ?? discount.code } : {}),
+      duration: 'once',
+      ...terms,
+      ...(appliesTo ? { applies_to: appliesTo } : {}),
+      ...(discount.maximumUses ? { max_redemptions: discount.maximumUses } : {}),
+      ...(discount.endsAt ? { redeem_by: toUnixSeconds(discount.endsAt) } : {}),
+      metadata: { discount_id: discount.id },
+    },
+    promotionCode,
+    lossyFeatures,
+  };
+}
+
+// Stripe coupons never touch shipping, so shipping discounts become a replacement rate priced for this cart.
+function exportShippingRate(original: Discount, discount: Discount, input: ExportInput): StripeShippingRateExport {
+  const { cart, customer, context, options } = input;
+  const currency = getCurrency(discount, input);
+  const amountInCents = calculateDiscountAmount(discount, cart, undefined, customer, context);
+  const lossyFeatures = getRestrictionLossyFeatures(discount, null);
+  if (discount.storeId) {
+    lossyFeatures.push({ feature: 'STORE', message: 'Stripe has one shipping rate per checkout, so the store discount is folded into it' });
+  }
+  return {
+    discount: original,
+    amountInCents,
+    shippingRate: {
+      display_name: options.shippingRateName ?? 'Shipping',
+      type: 'fixed_amount',
+      fixed_amount: { amount: Math.max(0, (cart.shippingInCents ?? 0) - amountInCents), currency },
+      metadata: { discount_id: discount.id },
+    },
+    lossyFeatures,
+  };
+}
+
+// Runs eligibility first, then exports the discounts resolveStripeCompatibleDiscounts picks as Stripe API params.
+export function exportStripeDiscounts(
+  cart: Cart,
+  discounts: Discount[],
+  customer?: Customer,
+  context?: DiscountContext,
+  options: StripeExportOptions = {}
+): StripeExport {
+  const evaluations = evaluateDiscountsWithReasons(cart, discounts, customer, context);
+  const originals = new Map<Discount, Discount>();
+  const localizedDiscounts = evaluations
+    .filter(evaluation => evaluation.eligible)
+    .flatMap(({ discount }) => {
+      const localized = localizeDiscount(discount, cart.currency, context?.exchangeRates);
+      if (!localized) return [];
+      originals.set(localized, discount);
+      return [localized];
+    });
+
+  // Stripe applies every exported discount together, so they must be allowed to combine.
+  const resolved = resolveStripeCompatibleDiscounts(localizedDiscounts, cart, customer, context, { requireCombinable: true });
+  const input: ExportInput = { cart, customer, context, options };
+  const exported = [resolved.automatic, resolved.coupon, resolved.freeShipping].filter((discount): discount is Discount => discount !== null);
+
+  return {
+    automatic: resolved.automatic && exportCoupon(originals.get(resolved.automatic)!, resolved.automatic, input),
+    coupon: resolved.coupon && exportCoupon(originals.get(resolved.coupon)!, resolved.coupon, input),
+    shipping: resolved.freeShipping && exportShippingRate(originals.get(resolved.freeShipping)!, resolved.freeShipping, input),
+    ineligible: evaluations.filter(evaluation => !evaluation.eligible),
+    notExported: localizedDiscounts.filter(discount => !exported.includes(discount)).map(discount => originals.get(discount)!),
+  };
+}
@@ -0,0 +1,50 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { applyDiscounts } from './discount';
+import { calculateTaxInCents } from './tax';
+import { calculateTotals } from './totals';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+describe('calculateTaxInCents', () => {
+  it('should extract tax from inclusive prices and add it to exclusive ones', () => {
+    expect(calculateTaxInCents(12000, 20, 'INCLUSIVE')).toBe(2000);
+    expect(calculateTaxInCents(10000, 8.875, 'EXCLUSIVE')).toBe(888);
+    expect(calculateTaxInCents(10000, 0, 'EXCLUSIVE')).toBe(0);
+  });
+});
+
+describe('Tax impact of discounts', () => {
+  it('should report the VAT each discount removes from a tax-inclusive cart, shipping included', () => {
+    const cart: Cart = { storeId: 's_eu', taxMode: 'INCLUSIVE', taxRatesByCategory: { standard: 20, books: 0 }, shippingTaxRate: 20, shippingInCents: 600, items: [
+      { variantId: 'v_lamp', collectionIds: [], quantity: 1, priceInCents: 12000, taxCategory: 'standard' },
+      { variantId: 'v_book', collectionIds: [], quantity: 1, priceInCents: 3000, taxCategory: 'books' },
+    ] };
+    const discounts: Discount[] = [
+      { id: 'd_order', type: 'ORDER', amountType: 'PERCENTAGE', amount: 10, startsAt: TEST_START, isActive: true },
+      { id: 'd_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, startsAt: TEST_START, isActive: true },
+    ];
+
+    const { allocations } = applyDiscounts(cart, discounts);
+
+    expect(allocations.map(allocation => [allocation.discountId, allocation.lineIndex, allocation.amountInCents, allocation.taxInCents])).toEqual([
+      ['d_order', 0, 1200, 200],
+      ['d_order', 1, 300, 0],
+      ['d_ship', null, 600, 100],
+    ]);
+
+    const totals = calculateTotals(cart, discounts, undefined, mockContext);
+    expect(totals).toMatchObject({ taxMode: 'INCLUSIVE', taxInCents: 1800, taxSavingsInCents: 300, grandTotalInCents: 13500 });
+  });
+
+  it('should add tax on the discounted price of a tax-exclusive cart', () => {
+    const cart: Cart = { storeId: 's_us', shippingInCents: 500, items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 10000, taxRate: 8.875 }] };
+    const discount: Discount = { id: 'd_prod', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, applyToAllProducts: true, startsAt: TEST_START, isActive: true };
+
+    const totals = calculateTotals(cart, [discount], undefined, mockContext);
+
+    expect(totals.allocations[0].taxInCents).toBe(89);
+    expect(totals.lines[0].taxInCents).toBe(799);
+    expect(totals.grandTotalInCents).toBe(9000 + 799 + 500);
+  });
+});
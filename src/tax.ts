@@ -0,0 +1,47 @@
+import { allocateProportionally } from "./allocation";
+import type { Cart, CartItem, DiscountAllocation, TaxMode } from "./types";
+
+export function getLineTaxRate(cart: Cart, item: CartItem): number {
+  if (item.taxRate !== undefined) return item.taxRate;
+  if (item.taxCategory !== undefined) return cart.taxRatesByCategory?.[item.taxCategory] ?? 0;
+  return 0;
+}
+
+// Tax contained in (INCLUSIVE) or charged on top of (EXCLUSIVE) an amount.
+export function calculateTaxInCents(amountInCents: number, taxRate: number, taxMode: TaxMode): number {
+  if (taxRate <= 0 || amountInCents <= 0) return 0;
+  if (taxMode === 'INCLUSIVE') {
+    return Math.round(amountInCents - amountInCents / (1 + taxRate / 100));
+  }
+  return Math.round(amountInCents * (taxRate / 100));
+}
+
+function splitTaxImpact(allocations: DiscountAllocation[], totalInCents: number, taxRate: number, taxMode: TaxMode) {
+  if (allocations.length === 0) return;
+  const discountInCents = allocations.reduce((sum, allocation) => sum + allocation.amountInCents, 0);
+  // Taking the difference of rounded taxes keeps the invoice's tax lines reconciling to the cent.
+  const taxImpact = calculateTaxInCents(totalInCents, taxRate, taxMode) - calculateTaxInCents(totalInCents - discountInCents, taxRate, taxMode);
+  allocateProportionally(taxImpact, allocations.map(allocation => allocation.amountInCents)).forEach((share, index) => {
+    allocations[index].taxInCents = share;
+  });
+}
+
+export function withTaxImpact(cart: Cart, allocations: DiscountAllocation[]): DiscountAllocation[] {
+  const taxMode = cart.taxMode ?? 'EXCLUSIVE';
+  const result = allocations.map(allocation => ({ ...allocation, taxInCents: 0 }));
+  cart.items.forEach((item, lineIndex) => {
+    splitTaxImpact(
+      result.filter(allocation => allocation.lineIndex === lineIndex),
+      item.priceInCents * item.quantity,
+      getLineTaxRate(cart, item),
+      taxMode
+    );
+  });
+  splitTaxImpact(
+    result.filter(allocation => allocation.lineIndex === null),
+    cart.shippingInCents ?? 0,
+    cart.shippingTaxRate ?? 0,
+    taxMode
+  );
+  return result;
+}
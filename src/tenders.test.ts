@@ -0,0 +1,57 @@
+import type { Cart, Discount, DiscountContext, StoredValueAccount } from './types';
+import { applyStoredValue } from './tenders';
+import { calculateTotals } from './totals';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const cart: Cart = { storeId: 's1', currency: 'USD', shippingInCents: 1000, items: [
+  { variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 10000, taxRate: 10 },
+] };
+const productOnly: Discount = {
+  id: 'd_prod', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 20, applyToAllProducts: true, exclusive: true,
+  startsAt: TEST_START, isActive: true,
+};
+
+describe('applyStoredValue', () => {
+  it('should pay the final total even next to an exclusive discount, without touching tax', () => {
+    const totals = calculateTotals(cart, [productOnly], undefined, mockContext);
+    const giftCard: StoredValueAccount = { id: 'gc_1', type: 'GIFT_CARD', balanceInCents: 5000, currency: 'USD' };
+
+    const result = applyStoredValue(totals, [giftCard], mockContext.now);
+
+    expect(totals).toMatchObject({ taxInCents: 800, grandTotalInCents: 9800 });
+    expect(result).toMatchObject({ storedValueInCents: 5000, amountDueInCents: 4800, remainingBalances: { gc_1: 0 } });
+  });
+
+  it('should return the remaining balance and cover shipping only where allowed', () => {
+    const totals = calculateTotals(cart, [], undefined, mockContext);
+    const accounts: StoredValueAccount[] = [
+      { id: 'credit', type: 'STORE_CREDIT', balanceInCents: 20000, canCoverShipping: false },
+      { id: 'gc_big', type: 'GIFT_CARD', balanceInCents: 5000 },
+    ];
+
+    const result = applyStoredValue(totals, accounts, mockContext.now);
+
+    expect(result.redemptions).toEqual([
+      { accountId: 'credit', type: 'STORE_CREDIT', amountInCents: 11000, remainingBalanceInCents: 9000 },
+      { accountId: 'gc_big', type: 'GIFT_CARD', amountInCents: 1000, remainingBalanceInCents: 4000 },
+    ]);
+    expect(result.amountDueInCents).toBe(0);
+  });
+
+  it('should skip expired, inactive and foreign-currency accounts', () => {
+    const totals = calculateTotals(cart, [], undefined, mockContext);
+    const accounts: StoredValueAccount[] = [
+      { id: 'old', type: 'GIFT_CARD', balanceInCents: 1000, expiresAt: new Date('2025-01-01T00:00:00Z') },
+      { id: 'off', type: 'GIFT_CARD', balanceInCents: 1000, isActive: false },
+      { id: 'eur', type: 'GIFT_CARD', balanceInCents: 1000, currency: 'EUR' },
+    ];
+
+    const result = applyStoredValue(totals, accounts, mockContext.now);
+
+    expect(result.skipped.map(entry => entry.code)).toEqual(['EXPIRED', 'INACTIVE', 'CURRENCY_MISMATCH']);
+    expect(result.amountDueInCents).toBe(totals.grandTotalInCents);
+    expect(result.remainingBalances).toEqual({ old: 1000, off: 1000, eur: 1000 });
+  });
+});
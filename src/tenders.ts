@@ -0,0 +1,48 @@
+import type { CheckoutTotals, StoredValueAccount, StoredValueResult } from "./types";
+
+// Runs after calculateTotals, so gift cards and store credit pay the final amount and never lower the tax base.
+export function applyStoredValue(
+  totals: CheckoutTotals,
+  accounts: StoredValueAccount[],
+  now: Date = new Date()
+): StoredValueResult {
+  const shippingDueInCents = totals.shippingAfterDiscountInCents + (totals.taxMode === 'EXCLUSIVE' ? totals.shippingTaxInCents : 0);
+  let shippingRemaining = Math.min(totals.grandTotalInCents, shippingDueInCents);
+  let merchandiseRemaining = totals.grandTotalInCents - shippingRemaining;
+
+  const result: StoredValueResult = { redemptions: [], skipped: [], storedValueInCents: 0, amountDueInCents: 0, remainingBalances: {} };
+  for (const account of accounts) {
+    const balanceInCents = Math.max(0, account.balanceInCents);
+    result.remainingBalances[account.id] = balanceInCents;
+    const skip = (code: StoredValueResult['skipped'][number]['code'], message: string) =>
+      result.skipped.push({ accountId: account.id, code, message });
+
+    if (account.isActive === false) {
+      skip('INACTIVE', 'Account is not active');
+    } else if (account.expiresAt && account.expiresAt.getTime() <= now.getTime()) {
+      skip('EXPIRED', `Account expired at ${account.expiresAt.toISOString()}`);
+    } else if (account.currency && totals.currency && account.currency !== totals.currency) {
+      skip('CURRENCY_MISMATCH', `Account is in ${account.currency}, the order in ${totals.currency}`);
+    } else if (balanceInCents === 0) {
+      skip('NO_BALANCE', 'Account has no balance left');
+    } else {
+      const merchandiseInCents = Math.min(balanceInCents, merchandiseRemaining);
+      merchandiseRemaining -= merchandiseInCents;
+      const shippingInCents = account.canCoverShipping === false ? 0 : Math.min(balanceInCents - merchandiseInCents, shippingRemaining);
+      shippingRemaining -= shippingInCents;
+      const amountInCents = merchandiseInCents + shippingInCents;
+      if (amountInCents === 0) continue;
+
+      result.remainingBalances[account.id] = balanceInCents - amountInCents;
+      result.storedValueInCents += amountInCents;
+      result.redemptions.push({
+        accountId: account.id,
+        type: account.type,
+        amountInCents,
+        remainingBalanceInCents: balanceInCents - amountInCents,
+      });
+    }
+  }
+  result.amountDueInCents = merchandiseRemaining + shippingRemaining;
+  return result;
+}
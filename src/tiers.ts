@@ -0,0 +1,52 @@
+import type { Discount, DiscountAmountType, DiscountTier, DiscountTierProgress } from "./types";
+
+function isTierMet(tier: DiscountTier, subtotalInCents: number, quantity: number): boolean {
+  return subtotalInCents >= (tier.minimumPurchaseInCents ?? 0) && quantity >= (tier.minimumQuantity ?? 0);
+}
+
+export function sortTiers(tiers: DiscountTier[]): DiscountTier[] {
+  return [...tiers].sort((a, b) =>
+    (a.minimumPurchaseInCents ?? 0) - (b.minimumPurchaseInCents ?? 0) ||
+    (a.minimumQuantity ?? 0) - (b.minimumQuantity ?? 0)
+  );
+}
+
+export function getTierProgress(tiers: DiscountTier[], subtotalInCents: number, quantity: number): DiscountTierProgress {
+  const sortedTiers = sortTiers(tiers);
+  let currentIndex = -1;
+  sortedTiers.forEach((tier, index) => {
+    if (isTierMet(tier, subtotalInCents, quantity)) currentIndex = index;
+  });
+  const currentTier = sortedTiers[currentIndex] ?? null;
+  const nextTier = sortedTiers[currentIndex + 1] ?? null;
+  return {
+    currentTier,
+    nextTier,
+    amountToNextTierInCents: nextTier ? Math.max(0, (nextTier.minimumPurchaseInCents ?? 0) - subtotalInCents) : 0,
+    quantityToNextTier: nextTier ? Math.max(0, (nextTier.minimumQuantity ?? 0) - quantity) : 0,
+  };
+}
+
+// What an amount takes off a price: a percentage of it, a fixed sum, or the difference to a fixed price.
+export function getAmountOffInCents(amountType: DiscountAmountType, amount: number, priceInCents: number): number {
+  const amountOff = amountType === 'PERCENTAGE'
+    ? Math.round(priceInCents * (amount / 100))
+    : amountType === 'FIXED_PRICE'
+      ? priceInCents - amount
+      : amount;
+  return Math.max(0, Math.min(priceInCents, amountOff));
+}
+
+export function getEffectiveDiscountAmount(discount: Discount, subtotalInCents: number, quantity: number): {
+  amountType: DiscountAmountType;
+  amount: number;
+} {
+  if (!discount.tiers || discount.tiers.length === 0) {
+    return { amountType: discount.amountType, amount: discount.amount };
+  }
+  const { currentTier } = getTierProgress(discount.tiers, subtotalInCents, quantity);
+  if (!currentTier) {
+    return { amountType: discount.amountType, amount: 0 };
+  }
+  return { amountType: currentTier.amountType ?? discount.amountType, amount: currentTier.amount };
+}
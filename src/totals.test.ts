@@ -0,0 +1,50 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { calculateTotals } from './totals';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+describe('calculateTotals', () => {
+  it('should go from cart to grand total in one call', () => {
+    const cart: Cart = { storeId: 's1', items: [
+      { variantId: 'v_a', collectionIds: [], quantity: 1, priceInCents: 5000 },
+      { variantId: 'v_b', collectionIds: [], quantity: 1, priceInCents: 7000 },
+    ], shippingInCents: 1000, shippingCountryCode: 'US' };
+    const discounts: Discount[] = [
+      { id: 'd_prod', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, variants: ['v_a', 'v_b'], startsAt: TEST_START, isActive: true },
+      { id: 'd_order', code: 'BIGSPENDER', type: 'ORDER', amountType: 'FIXED', amount: 500, minimumPurchaseInCents: 10000, startsAt: TEST_START, isActive: true },
+      { id: 'd_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, startsAt: TEST_START, isActive: true },
+      { id: 'd_expired', type: 'ORDER', amountType: 'FIXED', amount: 5000, startsAt: TEST_START, endsAt: TEST_START, isActive: true },
+    ];
+
+    const totals = calculateTotals(cart, discounts, undefined, mockContext);
+
+    expect(totals).toMatchObject({
+      subtotalInCents: 12000,
+      productDiscountInCents: 1200,
+      orderDiscountInCents: 500,
+      discountedSubtotalInCents: 10300,
+      shippingInCents: 1000,
+      shippingDiscountInCents: 1000,
+      shippingAfterDiscountInCents: 0,
+      totalSavingsInCents: 2700,
+      grandTotalInCents: 10300,
+    });
+    expect(totals.lines.map(line => line.totalInCents)).toEqual([4292, 6008]);
+    expect(totals.appliedDiscounts.map(discount => discount.id)).toEqual(['d_prod', 'd_order', 'd_ship']);
+  });
+
+  it('should never let discounts push lines or shipping below zero', () => {
+    const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 300 }], shippingInCents: 200 };
+    const discounts: Discount[] = [
+      { id: 'd_order', type: 'ORDER', amountType: 'FIXED', amount: 1000, startsAt: TEST_START, isActive: true },
+      { id: 'd_ship', type: 'SHIPPING', amountType: 'FIXED', amount: 1000, startsAt: TEST_START, isActive: true },
+    ];
+
+    const totals = calculateTotals(cart, discounts, undefined, mockContext);
+
+    expect(totals.lines[0].totalInCents).toBe(0);
+    expect(totals.shippingDiscountInCents).toBe(200);
+    expect(totals.grandTotalInCents).toBe(0);
+  });
+});
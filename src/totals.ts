@@ -0,0 +1,65 @@
+import { sumAllocations } from "./allocation";
+import { applyDiscounts, evaluateDiscounts } from "./discount";
+import { getStoreShipping } from "./stores";
+import { calculateTaxInCents, getLineTaxRate } from "./tax";
+import type { ApplyDiscountsOptions, Cart, CartLineTotal, CheckoutTotals, Customer, Discount, DiscountContext } from "./types";
+
+export function calculateTotals(
+  cart: Cart,
+  discounts: Discount[],
+  customer?: Customer,
+  context?: DiscountContext,
+  options?: ApplyDiscountsOptions
+): CheckoutTotals {
+  const eligibleDiscounts = evaluateDiscounts(cart, discounts, customer, context);
+  const { allocations, appliedDiscounts } = applyDiscounts(cart, eligibleDiscounts, { exchangeRates: context?.exchangeRates, customer, context, ...options });
+  const taxMode = cart.taxMode ?? 'EXCLUSIVE';
+
+  const lines: CartLineTotal[] = cart.items.map((item, lineIndex) => {
+    const originalTotalInCents = Math.max(0, item.priceInCents * item.quantity);
+    const discountInCents = Math.min(
+      originalTotalInCents,
+      sumAllocations(allocations, allocation => allocation.lineIndex === lineIndex)
+    );
+    return {
+      lineIndex,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      unitPriceInCents: item.priceInCents,
+      originalTotalInCents,
+      discountInCents,
+      totalInCents: originalTotalInCents - discountInCents,
+      taxInCents: calculateTaxInCents(originalTotalInCents - discountInCents, getLineTaxRate(cart, item), taxMode),
+    };
+  });
+
+  const subtotalInCents = lines.reduce((sum, line) => sum + line.originalTotalInCents, 0);
+  const discountedSubtotalInCents = lines.reduce((sum, line) => sum + line.totalInCents, 0);
+  // Marketplace carts charge shipping per store, the same amounts the shipping discounts were split over.
+  const shippingInCents = Math.max(0, Object.values(getStoreShipping(cart)).reduce((sum, amount) => sum + amount, 0));
+  const shippingDiscountInCents = Math.min(shippingInCents, sumAllocations(allocations, allocation => allocation.lineIndex === null));
+  const shippingAfterDiscountInCents = shippingInCents - shippingDiscountInCents;
+  const orderDiscountInCents = sumAllocations(allocations, allocation => allocation.discountType === 'ORDER');
+  const shippingTaxInCents = calculateTaxInCents(shippingAfterDiscountInCents, cart.shippingTaxRate ?? 0, taxMode);
+  const taxInCents = lines.reduce((sum, line) => sum + line.taxInCents, 0) + shippingTaxInCents;
+
+  return {
+    subtotalInCents,
+    discountedSubtotalInCents,
+    lines,
+    shippingInCents,
+    shippingDiscountInCents,
+    shippingAfterDiscountInCents,
+    productDiscountInCents: subtotalInCents - discountedSubtotalInCents - orderDiscountInCents,
+    orderDiscountInCents,
+    totalSavingsInCents: subtotalInCents - discountedSubtotalInCents + shippingDiscountInCents,
+    taxMode,
+    taxInCents,
+    shippingTaxInCents,
+    taxSavingsInCents: allocations.reduce((sum, allocation) => sum + allocation.taxInCents, 0),
+    grandTotalInCents: discountedSubtotalInCents + shippingAfterDiscountInCents + (taxMode === 'EXCLUSIVE' ? taxInCents : 0),
+    appliedDiscounts,
+    allocations,
+    currency: cart.currency,
+  };
+}
@@ -1,18 +1,135 @@
-export type DiscountType = 'PRODUCT' | 'ORDER' | 'SHIPPING';
-export type DiscountAmountType = 'PERCENTAGE' | 'FIXED';
+export type DiscountType = 'PRODUCT' | 'ORDER' | 'SHIPPING' | 'BXGY' | 'BUNDLE';
+export type DiscountAmountType = 'PERCENTAGE' | 'FIXED' | 'FIXED_PRICE'; // FIXED_PRICE sets the price instead of taking an amount off
+export type DiscountClass = 'PRODUCT' | 'ORDER' | 'SHIPPING'; // BXGY and BUNDLE discounts belong to the PRODUCT class
+export type StackingMode = 'SEQUENTIAL' | 'ORIGINAL_PRICE';
+export type DiscountFunding = 'STORE' | 'PLATFORM'; // who pays for the discount in a marketplace
+
+export type BuyXGetYBuy = {
+  variants?: string[]; // empty selector matches every item
+  collections?: string[];
+  quantity?: number; // units consumed per application
+  minimumPurchaseInCents?: number; // spend on buy items consumed per application
+};
+
+export type BuyXGetYGet = {
+  variants?: string[]; // empty selector matches every item
+  collections?: string[];
+  quantity: number; // units discounted per application, cheapest first
+  amountType: DiscountAmountType | 'FREE';
+  amount?: number; // ignored for FREE
+};
+
+export type BundleComponent = {
+  variants?: string[]; // empty selector matches every item
+  collections?: string[];
+  quantity: number; // units of this component in one bundle
+};
+
+export type DiscountBundle = {
+  components: BundleComponent[]; // amount and amountType price one complete bundle
+};
+
+export type DiscountTier = {
+  minimumPurchaseInCents?: number;
+  minimumQuantity?: number;
+  amountType?: DiscountAmountType; // defaults to the discount's amountType
+  amount: number;
+};
+
+export type DiscountTimeWindow = {
+  start: string; // 'HH:mm' local time, inclusive
+  end: string; // 'HH:mm' local time, exclusive; a window ending before it starts runs past midnight
+};
+
+export type DiscountSchedule = {
+  timeZone: string; // IANA time zone the schedule is read in, e.g. 'Europe/Paris'
+  daysOfWeek?: number[]; // 0 = Sunday
+  daysOfMonth?: number[]; // 1-31
+  months?: number[]; // 1 = January
+  timeWindows?: DiscountTimeWindow[]; // whole day when empty
+};
+
+export type DiscountActiveWindow = {
+  startsAt: Date;
+  endsAt: Date | null; // null when the discount stays active until the end of the search
+};
+
+export type DiscountCustomerSegment = {
+  tags?: string[]; // customer needs at least one, case-insensitive
+  emailDomains?: string[]; // e.g. 'university.edu', also matches its subdomains
+  firstOrderOnly?: boolean;
+  minimumOrderCount?: number; // completed orders before this one
+  maximumOrderCount?: number;
+  minimumLifetimeSpendInCents?: number;
+};
+
+export type CustomerSegmentRule = keyof DiscountCustomerSegment;
+
+export type ShippingRule = 'shippingMethods' | 'shippingCarriers' | 'maximumShippingRateInCents' | 'maximumShippingWeightInGrams';
+
+export type DiscountCondition =
+  | { type: 'AND'; conditions: DiscountCondition[] }
+  | { type: 'OR'; conditions: DiscountCondition[] }
+  | { type: 'NOT'; condition: DiscountCondition }
+  | { type: 'CART_SUBTOTAL'; minimumInCents?: number; maximumInCents?: number }
+  | { type: 'CART_QUANTITY'; minimum?: number; maximum?: number }
+  | { type: 'ITEM_VARIANT'; variantIds: string[] }
+  | { type: 'ITEM_COLLECTION'; collectionIds: string[] }
+  | { type: 'ITEM_PRICE'; minimumInCents?: number; maximumInCents?: number } // unit price
+  | { type: 'ITEM_QUANTITY'; minimum?: number; maximum?: number }
+  | { type: 'CUSTOMER_TAG'; tags: string[] }
+  | { type: 'CUSTOMER_ORDER_COUNT'; minimum?: number; maximum?: number }
+  | { type: 'COUNTRY'; countryCodes: string[] } // shipping country, falling back to the context's
+  | { type: 'DATE_RANGE'; startsAt?: string; endsAt?: string } // ISO 8601, endsAt exclusive
+  | { type: 'CONTEXT_ATTRIBUTE'; key: string; values: Array<string | number | boolean> };
+
+export type DiscountConditionType = DiscountCondition['type'];
+
+export type ConditionFailure = {
+  path: string; // e.g. 'condition.conditions.1'
+  type: DiscountConditionType;
+  message: string;
+};
+
+export type DiscountCurrencyAmounts = {
+  amount?: number; // FIXED or FIXED_PRICE amount in this currency's minor units
+  minimumPurchaseInCents?: number;
+  maximumAmountForShippingInCents?: number;
+  maximumDiscountInCents?: number;
+  maximumShippingRateInCents?: number;
+  minimumLifetimeSpendInCents?: number;
+};
+
+export type ExchangeRates = Record<string, number>; // units of each currency per one unit of a common base
 
 export type Discount = {
    id: string;
   code?: string;
+  parentId?: string; // set on codes generated from a parent discount
   description?: string;
 
   type: DiscountType;
   amountType: DiscountAmountType;
-  amount: number; // in cents for FIXED, percentage for PERCENTAGE (e.g. 10 = 10%)
+  amount: number; // in cents for FIXED and FIXED_PRICE, percentage for PERCENTAGE (e.g. 10 = 10%)
+  currency?: string; // ISO 4217 code of FIXED amounts and cent thresholds, defaults to the cart's
+  amountsByCurrency?: Record<string, DiscountCurrencyAmounts>; // explicit values for other currencies, e.g. { JPY: { amount: 700 } }
+  tiers?: DiscountTier[]; // highest tier reached overrides amount; measured per line for PRODUCT, per cart otherwise
 
   variants?: string[]; // array of variant IDs this discount applies to
   collections?: string[]; // array of collection IDs this discount applies to
+  excludedVariants?: string[]; // PRODUCT only, wins over variants, collections and applyToAllProducts
+  excludedCollections?: string[];
+  excludeItemsOnSale?: boolean; // skips items priced below their compare-at price
   customers?: string[]; // array of customer IDs this applies to
+  condition?: DiscountCondition; // item predicates hold when some item matches, and pick the items PRODUCT discounts apply to
+  customerSegment?: DiscountCustomerSegment; // every rule set must hold, in addition to customers
+  excludedCustomers?: string[];
+  excludedCustomerTags?: string[];
+
+  buy?: BuyXGetYBuy; // BXGY only
+  get?: BuyXGetYGet; // BXGY only
+  bundle?: DiscountBundle; // BUNDLE only
+  maximumApplicationsPerOrder?: number; // BXGY and BUNDLE, repeats the offer up to this many times
 
   applyToAllProducts?: boolean;
   applyToOrder?: boolean;
@@ -24,11 +141,18 @@ export type Discount = {
   combineWithOrderDiscounts?: boolean;
   combineWithShippingDiscounts?: boolean;
   exclusive?: boolean;
+  priority?: number; // lower applies first when stacking, ties keep list order
 
   limitOncePerCustomer?: boolean;
   maximumUses?: number;
   maximumUsesPerCustomer?: number;
   maximumAmountForShippingInCents?: number;
+  shippingMethods?: string[]; // SHIPPING only, methods of the selected shipping option it applies to
+  shippingCarriers?: string[]; // SHIPPING only
+  maximumShippingRateInCents?: number; // SHIPPING only, pricier rates are not discounted
+  maximumShippingWeightInGrams?: number; // SHIPPING only, needs a selected option with a weight
+  maximumDiscountedQuantity?: number; // PRODUCT only, units discounted per order, highest discount first
+  maximumDiscountInCents?: number; // total this discount may take off an order
 
   minimumPurchaseInCents?: number;
   minimumQuantity?: number;
@@ -36,27 +160,55 @@ export type Discount = {
 
   startsAt: Date;
   endsAt?: Date;
+  schedule?: DiscountSchedule; // recurring windows within startsAt/endsAt
   isActive?: boolean;
+
+  storeId?: string; // limits the discount to this store's items and shipping, platform-wide when unset
+  fundedBy?: DiscountFunding; // defaults to STORE for store discounts, PLATFORM otherwise
 };
 
+export type TaxMode = 'INCLUSIVE' | 'EXCLUSIVE';
+
 export type CartItem = {
   variantId: string;
   collectionIds: string[];
   quantity: number;
   priceInCents: number;
+  storeId?: string; // seller of the item, defaults to the cart's storeId
+  compareAtPriceInCents?: number; // regular price, the item is on sale when it is above priceInCents
+  taxRate?: number; // percentage, e.g. 20 = 20%; overrides the category rate
+  taxCategory?: string;
+};
+
+export type ShippingOption = {
+  id: string; // the rate's own ID
+  methodId: string; // e.g. 'standard', 'express'
+  carrier?: string;
+  priceInCents: number;
+  weightInGrams?: number; // weight the rate was quoted for
 };
 
 export type Cart = {
   storeId: string;
   customerId?: string;
   items: CartItem[];
-  shippingInCents?: number;
+  shippingInCents?: number; // price of the selected shipping option when there is one
+  shippingOptions?: ShippingOption[];
+  selectedShippingOptionId?: string;
+  shippingByStore?: Record<string, number>; // split of shippingInCents per store, all of it belongs to storeId when unset
   shippingCountryCode?: string;
+  taxMode?: TaxMode; // whether prices include tax, defaults to EXCLUSIVE
+  taxRatesByCategory?: Record<string, number>; // { [taxCategory]: percentage }
+  shippingTaxRate?: number; // percentage
+  currency?: string; // ISO 4217, all cent amounts are in its minor units
 };
 
 export type Customer = {
   id: string;
   email?: string;
+  tags?: string[];
+  orderCount?: number; // completed orders, missing counts as 0
+  lifetimeSpendInCents?: number; // in the cart's currency
 };
 
 export type DiscountContext = {
@@ -64,4 +216,506 @@ export type DiscountContext = {
   countryCode?: string;
   usageByCustomer?: Record<string, number>; // { [discountCode]: timesUsed }
   usageGlobal?: Record<string, number>;     // { [discountCode]: timesUsed }
+  exchangeRates?: ExchangeRates; // converts discounts defined in another currency
+  attributes?: Record<string, string | number | boolean>; // e.g. { channel: 'pos' }, read by CONTEXT_ATTRIBUTE conditions
+  usageStore?: UsageStore; // replaces the usage maps when set
+  usageReservationIds?: string[]; // this checkout's own reservations, not counted against it
+};
+
+export type UsageQuery = {
+  now: Date;
+  customerId?: string; // counts only this customer's usage when set
+  excludeReservationIds?: string[];
+};
+
+export type UsageReservation = {
+  id: string;
+  discountKey: string; // discount code, or id when there is no code
+  customerId?: string;
+  expiresAt: Date;
+};
+
+export type UsageReservationResult =
+  | { reserved: true; reservation: UsageReservation }
+  | { reserved: false; failures: EligibilityFailure[] };
+
+export type UsageStore = {
+  // Committed redemptions plus unexpired reservations.
+  getUsageCount(discountKey: string, query: UsageQuery): number;
+  reserve(discount: Discount, customerId?: string, options?: { now?: Date; ttlMs?: number }): UsageReservationResult;
+  commit(reservationId: string, now?: Date): boolean; // false when the reservation is unknown or expired
+  release(reservationId: string): boolean;
+};
+
+// For stores behind a network call, e.g. Redis or a database; reserveDiscountUsageAsync awaits each step.
+export type AsyncUsageStore = {
+  getUsageCount(discountKey: string, query: UsageQuery): Promise<number>;
+  reserve(discount: Discount, customerId?: string, options?: { now?: Date; ttlMs?: number }): Promise<UsageReservationResult>;
+  commit(reservationId: string, now?: Date): Promise<boolean>;
+  release(reservationId: string): Promise<boolean>;
+};
+
+export type DiscountUsageReservationResult =
+  | { reserved: true; reservations: UsageReservation[] }
+  | { reserved: false; discount: Discount; failures: EligibilityFailure[] };
+
+export type InMemoryUsageStoreOptions = {
+  initialUsage?: Array<{ discountKey: string; customerId?: string; count: number }>; // committed history to start from
+  generateId?: () => string;
+};
+
+
+export type EligibilityCheck =
+  | 'isWithinDateRange'
+  | 'isEligibleCustomer'
+  | 'hasCustomerRemainingUses'
+  | 'meetsCartTotalRequirements'
+  | 'isEligibleForCountry'
+  | 'isItemEligibleForProductDiscount'
+  | 'meetsBuyXGetYRequirements'
+  | 'meetsTierRequirements'
+  | 'isEligibleForCurrency'
+  | 'meetsConditions'
+  | 'meetsBundleRequirements'
+  | 'isEligibleForStore'
+  | 'isEligibleForShipping';
+
+export type EligibilityFailure =
+  | { check: 'isWithinDateRange'; code: 'INACTIVE'; message: string }
+  | { check: 'isWithinDateRange'; code: 'NOT_STARTED'; message: string; startsAt: Date }
+  | { check: 'isWithinDateRange'; code: 'EXPIRED'; message: string; endsAt: Date }
+  | { check: 'isWithinDateRange'; code: 'OUTSIDE_SCHEDULE'; message: string; nextActiveAt: Date | null }
+  | { check: 'isEligibleCustomer'; code: 'CUSTOMER_REQUIRED'; message: string }
+  | { check: 'isEligibleCustomer'; code: 'CUSTOMER_NOT_ELIGIBLE'; message: string; customerId: string }
+  | { check: 'isEligibleCustomer'; code: 'CUSTOMER_EXCLUDED'; message: string; customerId: string }
+  | { check: 'isEligibleCustomer'; code: 'CUSTOMER_SEGMENT_NOT_MET'; message: string; customerId: string; rule: CustomerSegmentRule }
+  | { check: 'hasCustomerRemainingUses'; code: 'GLOBAL_USAGE_LIMIT_REACHED'; message: string; usageCount: number; maximumUses: number }
+  | { check: 'hasCustomerRemainingUses'; code: 'CUSTOMER_USAGE_LIMIT_REACHED'; message: string; usageCount: number; maximumUses: number }
+  | { check: 'meetsCartTotalRequirements'; code: 'MINIMUM_PURCHASE_NOT_MET'; message: string; subtotalInCents: number; minimumPurchaseInCents: number; shortfallInCents: number }
+  | { check: 'meetsCartTotalRequirements'; code: 'MINIMUM_QUANTITY_NOT_MET'; message: string; quantity: number; minimumQuantity: number; remainingQuantity: number }
+  | { check: 'isEligibleForCountry'; code: 'COUNTRY_NOT_ELIGIBLE'; message: string; countryCode?: string; allowedCountryCodes: string[] }
+  | { check: 'isItemEligibleForProductDiscount'; code: 'NO_ELIGIBLE_ITEMS'; message: string }
+  | { check: 'meetsBuyXGetYRequirements'; code: 'BUY_REQUIREMENT_NOT_MET'; message: string; remainingQuantity: number; shortfallInCents: number }
+  | { check: 'meetsBuyXGetYRequirements'; code: 'NO_ELIGIBLE_GET_ITEMS'; message: string }
+  | { check: 'isEligibleForCurrency'; code: 'CURRENCY_MISMATCH'; message: string; currency: string; cartCurrency: string }
+  | { check: 'isEligibleForStore'; code: 'STORE_NOT_IN_CART'; message: string; storeId: string }
+  | { check: 'isEligibleForShipping'; code: 'SHIPPING_NOT_ELIGIBLE'; message: string; shippingOptionId?: string; rule: ShippingRule }
+  | { check: 'meetsBundleRequirements'; code: 'BUNDLE_INCOMPLETE'; message: string; missingComponents: Array<{ componentIndex: number; remainingQuantity: number }> }
+  | { check: 'meetsConditions'; code: 'CONDITION_NOT_MET'; message: string; conditionFailures: ConditionFailure[] }
+  | { check: 'meetsTierRequirements'; code: 'TIER_NOT_MET'; message: string; nextTier: DiscountTier; shortfallInCents: number; remainingQuantity: number };
+
+export type EligibilityFailureCode = EligibilityFailure['code'];
+
+export type DiscountTierProgress = {
+  currentTier: DiscountTier | null;
+  nextTier: DiscountTier | null;
+  amountToNextTierInCents: number; // 0 when there is no next tier
+  quantityToNextTier: number; // 0 when there is no next tier
+};
+
+export type BuyXGetYAllocation = {
+  applications: number;
+  discountsInCents: number[]; // per cart line, same order as the cart items
+  usedQuantities: number[]; // units per line the applications took, rewarded or not
+};
+
+export type BundleAllocation = BuyXGetYAllocation;
+
+export type DiscountEvaluation = {
+  discount: Discount;
+  eligible: boolean;
+  failures: EligibilityFailure[]; // empty when eligible
+};
+
+export type ApplyDiscountsOptions = {
+  stackingMode?: StackingMode; // SEQUENTIAL (default) discounts the running price, ORIGINAL_PRICE the undiscounted one
+  maximumCombinations?: number; // bound on discount combinations compared
+  maximumSearchSteps?: number; // bound on search nodes visited, across the whole call
+  searchBudget?: CombinationSearchBudget; // shares one budget with other searches, overrides maximumSearchSteps
+  exchangeRates?: ExchangeRates;
+  customer?: Customer; // read by per-item conditions of PRODUCT discounts
+  context?: DiscountContext;
+};
+
+export type CombinationSearchBudget = {
+  remainingSteps: number; // spent by findMaximalCombinations
+};
+
+export type ConditionInput = {
+  cart: Cart;
+  item?: CartItem; // unset when evaluating the cart as a whole
+  customer?: Customer;
+  context?: DiscountContext;
+};
+
+export type DiscountAllocation = {
+  discountId: string;
+  discountType: DiscountType;
+  lineIndex: number | null; // index into cart.items, null for shipping
+  variantId: string | null;
+  storeId: string; // store of the line, or whose shipping was discounted
+  fundedBy: DiscountFunding;
+  amountInCents: number;
+  taxInCents: number; // tax no longer charged because of this discount, part of amountInCents for INCLUSIVE carts
+};
+
+export type ApplyDiscountsResult = {
+  updatedCartItems: CartItem[]; // unit prices after PRODUCT discounts only
+  allocations: DiscountAllocation[]; // every cent each applied discount took off each line and shipping
+  orderLevelDiscountInCents: number;
+  shippingDiscountInCents: number;
+  buyXGetYDiscountInCents: number;
+  bundleDiscountInCents: number;
+  appliedDiscounts: Discount[]; // only discounts that took something off
+  productDiscountsByLine: Discount[][]; // PRODUCT discounts that won each line, same order as the cart items
+  exhaustive: boolean; // false when a search bound cut the comparison short
+  stackingMode: StackingMode; // the mode the discounts were applied in, refunds recompute rewards the same way
+  tierProgress: Array<DiscountTierProgress & { discount: Discount }>;
+  stores: StoreDiscountResult[];
+};
+
+export type ShippingOptionPrice = {
+  option: ShippingOption;
+  originalPriceInCents: number;
+  discountInCents: number;
+  priceInCents: number; // what the shopper pays for this option after discounts
+  isFree: boolean;
+  discounts: Discount[]; // shipping discounts applied to this option
+};
+
+export type StoreDiscountResult = {
+  storeId: string;
+  subtotalInCents: number;
+  shippingInCents: number;
+  discountInCents: number; // everything taken off this store's lines and shipping
+  shippingDiscountInCents: number;
+  storeFundedDiscountInCents: number;
+  platformFundedDiscountInCents: number;
+  payoutInCents: number; // subtotal and shipping less the discounts the store funds, before tax and fees
+};
+
+export type ReturnedLine = {
+  lineIndex: number; // index into the original cart.items
+  quantity: number;
+};
+
+export type RefundLine = {
+  lineIndex: number;
+  variantId: string;
+  quantity: number;
+  originalAmountInCents: number;
+  discountInCents: number; // share of the applied discounts carried by the returned units
+  refundInCents: number;
+};
+
+export type DiscountClawback = {
+  discountId: string;
+  amountInCents: number; // discount kept lines are no longer entitled to
+  failures: EligibilityFailure[]; // conditions the kept order no longer meets
+};
+
+export type RefundOptions = {
+  refundShippingOnFullReturn?: boolean; // defaults to true: returning every unit also refunds what was paid for shipping
+  exchangeRates?: ExchangeRates; // the rates the discounts were applied with, to re-check those defined in another currency
+};
+
+export type RefundResult = {
+  lines: RefundLine[];
+  clawbacks: DiscountClawback[];
+  shippingRefundInCents: number; // shipping paid after its discounts, only when every unit is returned
+  refundInCents: number; // line refunds minus clawbacks, never negative, plus the shipping refund
+  releasedUsageKeys: string[]; // discount codes (or ids) whose DiscountContext usage should be released
+};
+
+export type DiscountCodeLookup =
+  | { status: 'FOUND'; discount: Discount }
+  | { status: 'NOT_FOUND' }
+  | { status: 'INACTIVE' | 'NOT_STARTED' | 'EXPIRED' | 'OUTSIDE_SCHEDULE'; discount: Discount; failures: EligibilityFailure[] };
+
+export type DiscountCodeGenerationOptions = {
+  count: number;
+  prefix?: string;
+  length?: number; // random characters after the prefix, defaults to 8
+  alphabet?: string; // defaults to UNAMBIGUOUS_CODE_ALPHABET
+  existingCodes?: string[]; // codes already in use, never generated again
+  random?: () => number; // for tests, defaults to crypto.getRandomValues
+};
+
+export type DiscountValidationCode =
+  | 'REQUIRED'
+  | 'INVALID_VALUE'
+  | 'OUT_OF_RANGE'
+  | 'INVALID_DATE_RANGE'
+  | 'NO_TARGET'
+  | 'NO_EFFECT'
+  | 'UNUSED_FIELD'
+  | 'CONFLICTING_FIELDS';
+
+export type DiscountValidationIssue = {
+  field: string; // dotted path, e.g. "tiers.1.amount"
+  code: DiscountValidationCode;
+  message: string;
+};
+
+export type DiscountValidationResult = {
+  valid: boolean; // false when there is at least one error
+  errors: DiscountValidationIssue[];
+  warnings: DiscountValidationIssue[];
+};
+
+export type SerializedDiscount = Omit<Discount, 'startsAt' | 'endsAt'> & {
+  schemaVersion: number;
+  startsAt: string; // ISO 8601
+  endsAt?: string;
+};
+
+export type SerializedCart = Cart & { schemaVersion: number };
+
+export type SerializedDiscountContext = Omit<DiscountContext, 'now' | 'usageStore'> & {
+  schemaVersion: number;
+  now: string; // ISO 8601
+};
+
+export type CartLineTotal = {
+  lineIndex: number;
+  variantId: string;
+  quantity: number;
+  unitPriceInCents: number;
+  originalTotalInCents: number;
+  discountInCents: number; // product, BXGY and prorated order discounts
+  totalInCents: number;
+  taxInCents: number; // on the discounted line total
+};
+
+export type CheckoutTotals = {
+  subtotalInCents: number;
+  discountedSubtotalInCents: number;
+  lines: CartLineTotal[];
+  shippingInCents: number;
+  shippingDiscountInCents: number;
+  shippingAfterDiscountInCents: number;
+  productDiscountInCents: number; // PRODUCT, BXGY and BUNDLE
+  orderDiscountInCents: number;
+  totalSavingsInCents: number;
+  taxMode: TaxMode;
+  taxInCents: number; // already part of the prices for INCLUSIVE carts
+  shippingTaxInCents: number;
+  taxSavingsInCents: number;
+  grandTotalInCents: number;
+  appliedDiscounts: Discount[];
+  allocations: DiscountAllocation[];
+  currency?: string;
+};
+
+export type StoredValueType = 'GIFT_CARD' | 'STORE_CREDIT';
+
+// Prepaid balance used as payment after discounts, never part of the discount pipeline.
+export type StoredValueAccount = {
+  id: string;
+  type: StoredValueType;
+  balanceInCents: number;
+  currency?: string; // must match the cart's when both are set
+  expiresAt?: Date;
+  isActive?: boolean;
+  canCoverShipping?: boolean; // defaults to true
+};
+
+export type StoredValueSkipCode = 'INACTIVE' | 'EXPIRED' | 'CURRENCY_MISMATCH' | 'NO_BALANCE';
+
+export type StoredValueRedemption = {
+  accountId: string;
+  type: StoredValueType;
+  amountInCents: number;
+  remainingBalanceInCents: number;
+};
+
+export type StoredValueResult = {
+  redemptions: StoredValueRedemption[]; // accounts that paid something, in the order given
+  skipped: Array<{ accountId: string; code: StoredValueSkipCode; message: string }>;
+  storedValueInCents: number;
+  amountDueInCents: number; // left to pay by other means
+  remainingBalances: Record<string, number>; // every account, by id
+};
+
+// Features with no Stripe equivalent; the export keeps what this cart needs and reports the rest.
+export type StripeLossyFeatureCode =
+  | 'COLLECTIONS'
+  | 'EXCLUSIONS'
+  | 'PER_UNIT_AMOUNT'
+  | 'TIERS'
+  | 'FIXED_PRICE'
+  | 'BUY_X_GET_Y'
+  | 'BUNDLE'
+  | 'QUANTITY_CAP'
+  | 'AMOUNT_CAP'
+  | 'SHIPPING_CAP'
+  | 'MINIMUM_PURCHASE'
+  | 'MINIMUM_QUANTITY'
+  | 'CUSTOMERS'
+  | 'CUSTOMER_SEGMENT'
+  | 'PER_CUSTOMER_LIMIT'
+  | 'COUNTRIES'
+  | 'SCHEDULE'
+  | 'CONDITION'
+  | 'STORE';
+
+export type StripeLossyFeature = {
+  feature: StripeLossyFeatureCode;
+  message: string;
+};
+
+// Field names follow the Stripe API so the params can be sent as they are.
+export type StripeCouponParams = {
+  id: string;
+  name?: string;
+  duration: 'once';
+  percent_off?: number;
+  amount_off?: number;
+  currency?: string; // lowercase, set with amount_off
+  currency_options?: Record<string, { amount_off: number }>;
+  applies_to?: { products: string[] };
+  max_redemptions?: number;
+  redeem_by?: number; // unix seconds
+  metadata: Record<string, string>;
+};
+
+export type StripePromotionCodeParams = {
+  coupon: string;
+  code: string;
+  active: boolean;
+  customer?: string;
+  expires_at?: number; // unix seconds
+  restrictions?: {
+    first_time_transaction?: boolean;
+    minimum_amount?: number;
+    minimum_amount_currency?: string;
+  };
+  metadata: Record<string, string>;
+};
+
+export type StripeShippingRateParams = {
+  display_name: string;
+  type: 'fixed_amount';
+  fixed_amount: { amount: number; currency: string };
+  metadata: Record<string, string>;
+};
+
+export type StripeDiscountExport = {
+  discount: Discount;
+  amountInCents: number; // what the discount takes off this cart
+  coupon: StripeCouponParams;
+  promotionCode: StripePromotionCodeParams | null; // coded discounts only
+  lossyFeatures: StripeLossyFeature[];
+};
+
+export type StripeShippingRateExport = {
+  discount: Discount;
+  amountInCents: number;
+  shippingRate: StripeShippingRateParams; // replaces the cart's shipping rate
+  lossyFeatures: StripeLossyFeature[];
+};
+
+export type StripeResolveOptions = {
+  requireCombinable?: boolean; // only picks discounts whose combination settings let them apply together
+};
+
+export type StripeExportOptions = {
+  currency?: string; // used when neither the cart nor the discount sets one, defaults to 'usd'
+  productIds?: Record<string, string>; // Stripe product ID by variant ID, the variant ID when missing
+  customerIds?: Record<string, string>; // Stripe customer ID by customer ID, needed to limit a promotion code to its customer
+  shippingRateName?: string; // defaults to 'Shipping'
+};
+
+export type StripeExport = {
+  automatic: StripeDiscountExport | null;
+  coupon: StripeDiscountExport | null;
+  shipping: StripeShippingRateExport | null;
+  ineligible: DiscountEvaluation[];
+  notExported: Discount[]; // eligible but outranked or not combinable with the exported set, Stripe takes one of each kind
+};
+
+export type DiscountOptimizerOptions = ApplyDiscountsOptions & {
+  maximumAlternatives?: number; // runner-up sets returned, defaults to 3
+};
+
+export type DiscountCombinationResult = {
+  discounts: Discount[]; // the discounts that took something off
+  savingsInCents: number;
+  result: ApplyDiscountsResult;
+};
+
+export type DiscountCodeOutcomeStatus =
+  | 'APPLIED'
+  | 'NOT_FOUND'
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'OUTSIDE_SCHEDULE'
+  | 'INELIGIBLE'
+  | 'OUTRANKED' // eligible, but the best set cannot include it
+  | 'NO_SAVINGS'; // in the best set, but the other discounts leave it nothing to take off
+
+export type DiscountCodeOutcome = {
+  code: string; // as entered
+  status: DiscountCodeOutcomeStatus;
+  message: string;
+  discount?: Discount;
+  failures?: EligibilityFailure[];
+  conflictsWith?: Discount[]; // OUTRANKED: applied discounts it cannot combine with
+  savingsInCents?: number; // OUTRANKED: savings of the best set compared that uses it
+};
+
+export type DiscountOptimization = {
+  best: DiscountCombinationResult;
+  alternatives: DiscountCombinationResult[]; // highest savings first, each a different set of discounts
+  codes: DiscountCodeOutcome[]; // one per distinct entered code
+  ineligible: DiscountEvaluation[]; // automatic discounts that do not qualify
+  exhaustive: boolean; // false when maximumCombinations or the step budget cut the search short
+};
+
+export type SimulationCart = {
+  cart: Cart;
+  customer?: Customer;
+  context?: DiscountContext;
+};
+
+export type DiscountSimulationEntry = {
+  discount: Discount;
+  qualifyingCartCount: number;
+  appliedCartCount: number;
+  blockedCartCount: number; // qualified, but the best combination left it out
+  displacedCartCount: number; // applied in place of an existing discount that applied before
+  totalDiscountInCents: number;
+  averageDiscountInCents: number; // per cart it applied to, rounded
+  rejections: Partial<Record<EligibilityFailureCode, number>>; // carts per failing rule, a cart can fail several
+  blockedBy: Record<string, number>; // carts per existing discount ID that won instead
+};
+
+export type DiscountSimulation = {
+  cartCount: number;
+  qualifyingCartCount: number; // carts where any proposed discount is eligible
+  appliedCartCount: number;
+  totalDiscountInCents: number; // taken by the proposed discounts
+  averageDiscountInCents: number; // per cart they applied to, rounded
+  incrementalDiscountInCents: number; // change in total savings against the existing discounts alone
+  discountByType: Partial<Record<DiscountType, number>>; // proposed discounts' cost by the type of discount
+  discounts: DiscountSimulationEntry[]; // one per proposed discount, same order
+};
+
+export type UpsellOptions = {
+  catalog?: Array<Omit<CartItem, 'quantity'>>; // products the shopper could add, used to suggest items and estimate savings
+};
+
+export type UpsellOpportunity = {
+  discount: Discount;
+  amountToAddInCents: number; // spend still missing, 0 when only items are missing
+  quantityToAdd: number;
+  variants: string[]; // items that must be added, empty when any item counts
+  collections: string[];
+  progress: number; // 0 to 1, share of the requirement already met
+  suggestedItem: CartItem | null; // cheapest way found to unlock it, null when no known item qualifies
+  extraSpendInCents: number | null; // cost of the suggested item
+  savingsInCents: number | null; // unlocked by the suggested item
+  savingsPerCent: number | null; // savingsInCents / extraSpendInCents, what the ranking uses
+  message: string;
 };
@@ -0,0 +1,38 @@
+import type { Cart, Discount, DiscountContext } from './types';
+import { getUpsellOpportunities } from './upsell';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const mockContext: DiscountContext = { now: new Date('2025-06-23T12:00:00Z') };
+
+const cart: Cart = { storeId: 's1', shippingInCents: 600, items: [{ variantId: 'v_tee', collectionIds: ['c_tops'], quantity: 1, priceInCents: 4200 }] };
+
+const catalog = [
+  { variantId: 'v_socks', collectionIds: [], priceInCents: 500 },
+  { variantId: 'v_cap', collectionIds: [], priceInCents: 1200 },
+  { variantId: 'v_bag', collectionIds: ['c_bags'], priceInCents: 3000 },
+];
+
+describe('Upsell opportunities', () => {
+  it('should rank near misses by savings per extra cent spent', () => {
+    const discounts: Discount[] = [
+      { id: 'd_free_ship', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, minimumPurchaseInCents: 5000, startsAt: TEST_START, isActive: true },
+      { id: 'd_bags', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 20, variants: ['v_bag'], startsAt: TEST_START, isActive: true },
+      { id: 'd_hats', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 50, collections: ['c_hats'], startsAt: TEST_START, isActive: true },
+      { id: 'd_vip', type: 'ORDER', amountType: 'FIXED', amount: 500, minimumPurchaseInCents: 5000, customerSegment: { tags: ['vip'] }, startsAt: TEST_START, isActive: true },
+      { id: 'd_bulk', type: 'ORDER', amountType: 'FIXED', amount: 1000, minimumQuantity: 3, startsAt: TEST_START, isActive: true },
+      { id: 'd_tops', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, collections: ['c_tops'], startsAt: TEST_START, isActive: true },
+    ];
+
+    const opportunities = getUpsellOpportunities(cart, discounts, { id: 'c1' }, mockContext, { catalog });
+
+    expect(opportunities.map(opportunity => [opportunity.discount.id, opportunity.suggestedItem?.variantId, opportunity.suggestedItem?.quantity, opportunity.savingsInCents]))
+      .toEqual([
+        ['d_bulk', 'v_socks', 2, 1000],
+        ['d_free_ship', 'v_socks', 2, 600],
+        ['d_bags', 'v_bag', 1, 600],
+        ['d_hats', undefined, undefined, null],
+      ]);
+    expect(opportunities[1]).toMatchObject({ amountToAddInCents: 800, progress: 0.84, extraSpendInCents: 1000, message: 'Add 800 cents to save 600 cents' });
+    expect(opportunities[3]).toMatchObject({ collections: ['c_hats'], progress: 0, message: 'Add an eligible item to unlock this discount' });
+  });
+});
@@ -0,0 +1,92 @@
+import { localizeDiscount } from "./currency";
+import { calculateDiscountAmount, explainDiscountEligibility } from "./discount";
+import type { Cart, CartItem, Customer, Discount, DiscountContext, EligibilityFailureCode, UpsellOpportunity, UpsellOptions } from "./types";
+
+// Failures the shopper can fix by adding to the cart; anything else rules the discount out.
+const NEAR_MISS_CODES: EligibilityFailureCode[] = ['MINIMUM_PURCHASE_NOT_MET', 'MINIMUM_QUANTITY_NOT_MET', 'NO_ELIGIBLE_ITEMS'];
+
+function addToCart(cart: Cart, item: Omit<CartItem, 'quantity'>, quantity: number): Cart {
+  const lineIndex = cart.items.findIndex(line => line.variantId === item.variantId && line.priceInCents === item.priceInCents);
+  const items = lineIndex >= 0
+    ? cart.items.map((line, index) => index === lineIndex ? { ...line, quantity: line.quantity + quantity } : line)
+    : [...cart.items, { ...item, quantity }];
+  return { ...cart, items };
+}
+
+// Discounts the cart nearly qualifies for, with the cheapest known way to unlock each, best savings per extra cent first.
+export function getUpsellOpportunities(
+  cart: Cart,
+  discounts: Discount[],
+  customer?: Customer,
+  context?: DiscountContext,
+  options: UpsellOptions = {}
+): UpsellOpportunity[] {
+  const opportunities: UpsellOpportunity[] = [];
+  for (const discount of discounts) {
+    const { failures } = explainDiscountEligibility(cart, discount, customer, context);
+    if (failures.length === 0 || failures.some(failure => !NEAR_MISS_CODES.includes(failure.code))) continue;
+
+    let amountToAddInCents = 0;
+    let quantityToAdd = 0;
+    let needsEligibleItem = false;
+    let progress = 1;
+    for (const failure of failures) {
+      if (failure.code === 'MINIMUM_PURCHASE_NOT_MET') {
+        amountToAddInCents = failure.shortfallInCents;
+        progress = Math.min(progress, failure.subtotalInCents / failure.minimumPurchaseInCents);
+      } else if (failure.code === 'MINIMUM_QUANTITY_NOT_MET') {
+        quantityToAdd = failure.remainingQuantity;
+        progress = Math.min(progress, failure.quantity / failure.minimumQuantity);
+      } else {
+        needsEligibleItem = true;
+        progress = 0;
+      }
+    }
+
+    // Catalog products come first so a cart line never hides the catalog entry for the same variant.
+    const seenVariants = new Set<string>();
+    const candidates: Array<Omit<CartItem, 'quantity'>> = [...(options.catalog ?? []), ...cart.items].filter(item => {
+      if (seenVariants.has(item.variantId) || item.priceInCents <= 0) return false;
+      seenVariants.add(item.variantId);
+      return true;
+    });
+    const localized = localizeDiscount(discount, cart.currency, context?.exchangeRates) ?? discount;
+
+    let best: { item: CartItem; extraSpendInCents: number; savingsInCents: number } | null = null;
+    for (const product of candidates) {
+      const quantity = Math.max(1, quantityToAdd, Math.ceil(amountToAddInCents / product.priceInCents));
+      const upsoldCart = addToCart(cart, product, quantity);
+      if (!explainDiscountEligibility(upsoldCart, discount, customer, context).eligible) continue;
+      const extraSpendInCents = product.priceInCents * quantity;
+      const savingsInCents = calculateDiscountAmount(localized, upsoldCart, undefined, customer, context);
+      const isBetter = !best ||
+        savingsInCents * best.extraSpendInCents > best.savingsInCents * extraSpendInCents ||
+        (savingsInCents * best.extraSpendInCents === best.savingsInCents * extraSpendInCents && extraSpendInCents < best.extraSpendInCents);
+      if (isBetter) best = { item: { ...product, quantity }, extraSpendInCents, savingsInCents };
+    }
+
+    const parts = [
+      ...(amountToAddInCents > 0 ? [`${amountToAddInCents} cents`] : []),
+      ...(quantityToAdd > 0 ? [`${quantityToAdd} more item(s)`] : []),
+      ...(needsEligibleItem ? ['an eligible item'] : []),
+    ];
+    opportunities.push({
+      discount,
+      amountToAddInCents,
+      quantityToAdd,
+      variants: needsEligibleItem ? discount.variants ?? [] : [],
+      collections: needsEligibleItem ? discount.collections ?? [] : [],
+      progress,
+      suggestedItem: best?.item ?? null,
+      extraSpendInCents: best?.extraSpendInCents ?? null,
+      savingsInCents: best?.savingsInCents ?? null,
+      savingsPerCent: best ? best.savingsInCents / best.extraSpendInCents : null,
+      message: `Add ${parts.join(' and ')} to ${best ? `save ${best.savingsInCents} cents` : 'unlock this discount'}`,
+    });
+  }
+
+  // Opportunities without a known way to unlock them go last, ties favour the smallest step.
+  return opportunities.sort((a, b) =>
+    (b.savingsPerCent ?? -1) - (a.savingsPerCent ?? -1) || a.amountToAddInCents - b.amountToAddInCents
+  );
+}
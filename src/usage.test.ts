@@ -0,0 +1,93 @@
+import type { AsyncUsageStore, Cart, Discount, DiscountContext } from './types';
+import { evaluateDiscounts } from './discount';
+import { createInMemoryUsageStore, reserveDiscountUsage, reserveDiscountUsageAsync } from './usage';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+const TEST_NOW = new Date('2025-06-23T12:00:00Z');
+const cart: Cart = { storeId: 's1', items: [{ variantId: 'v1', collectionIds: [], quantity: 1, priceInCents: 5000 }] };
+
+describe('createInMemoryUsageStore', () => {
+  const lastUse: Discount = { id: 'd_limited', code: 'LAST1', type: 'ORDER', amountType: 'FIXED', amount: 500, maximumUses: 1, startsAt: TEST_START, isActive: true };
+
+  it('should let only one of two concurrent checkouts reserve the last use', () => {
+    const store = createInMemoryUsageStore();
+
+    const first = store.reserve(lastUse, 'cust_a', { now: TEST_NOW });
+    const second = store.reserve(lastUse, 'cust_b', { now: TEST_NOW });
+
+    expect(first.reserved).toBe(true);
+    expect(second).toEqual({ reserved: false, failures: [expect.objectContaining({ code: 'GLOBAL_USAGE_LIMIT_REACHED', usageCount: 1 })] });
+  });
+
+  it('should free the use again when a reservation is released or expires', () => {
+    const store = createInMemoryUsageStore();
+
+    const released = store.reserve(lastUse, 'cust_a', { now: TEST_NOW });
+    if (released.reserved) store.release(released.reservation.id);
+    expect(store.getUsageCount('LAST1', { now: TEST_NOW })).toBe(0);
+
+    const expiring = store.reserve(lastUse, 'cust_a', { now: TEST_NOW, ttlMs: 1000 });
+    const later = new Date(TEST_NOW.getTime() + 2000);
+    expect(store.reserve(lastUse, 'cust_b', { now: later }).reserved).toBe(true);
+    expect(expiring.reserved && store.commit(expiring.reservation.id, later)).toBe(false);
+  });
+
+  it('should count committed redemptions per customer', () => {
+    const store = createInMemoryUsageStore({ initialUsage: [{ discountKey: 'WELCOME', customerId: 'cust_a', count: 1 }] });
+    const welcome: Discount = { id: 'd_welcome', code: 'WELCOME', type: 'ORDER', amountType: 'FIXED', amount: 500, limitOncePerCustomer: true, startsAt: TEST_START, isActive: true };
+
+    const reservation = store.reserve(welcome, 'cust_b', { now: TEST_NOW });
+    expect(reservation.reserved && store.commit(reservation.reservation.id, TEST_NOW)).toBe(true);
+
+    expect(store.getUsageCount('WELCOME', { now: TEST_NOW })).toBe(2);
+    expect(store.getUsageCount('WELCOME', { now: TEST_NOW, customerId: 'cust_b' })).toBe(1);
+    expect(store.reserve(welcome, 'cust_c', { now: TEST_NOW }).reserved).toBe(true);
+  });
+});
+
+describe('evaluateDiscounts with a usage store', () => {
+  const welcome: Discount = { id: 'd_welcome', code: 'WELCOME', type: 'ORDER', amountType: 'FIXED', amount: 500, limitOncePerCustomer: true, startsAt: TEST_START, isActive: true };
+
+  it('should read per-customer usage from the store instead of the maps', () => {
+    const usageStore = createInMemoryUsageStore({ initialUsage: [{ discountKey: 'WELCOME', customerId: 'cust_a', count: 1 }] });
+    const context: DiscountContext = { now: TEST_NOW, usageStore, usageByCustomer: { WELCOME: 0 } };
+
+    expect(evaluateDiscounts(cart, [welcome], { id: 'cust_a' }, context)).toHaveLength(0);
+    expect(evaluateDiscounts(cart, [welcome], { id: 'cust_b' }, context)).toHaveLength(1);
+  });
+
+  it('should not count a checkout\'s own reservations against it', () => {
+    const usageStore = createInMemoryUsageStore();
+    const result = reserveDiscountUsage(usageStore, [welcome], 'cust_a', { now: TEST_NOW });
+    const reservationIds = result.reserved ? result.reservations.map(reservation => reservation.id) : [];
+
+    expect(evaluateDiscounts(cart, [welcome], { id: 'cust_a' }, { now: TEST_NOW, usageStore })).toHaveLength(0);
+    expect(evaluateDiscounts(cart, [welcome], { id: 'cust_a' }, { now: TEST_NOW, usageStore, usageReservationIds: reservationIds })).toHaveLength(1);
+  });
+
+  it('should roll back every reservation when one discount is used up', () => {
+    const usageStore = createInMemoryUsageStore({ initialUsage: [{ discountKey: 'LAST1', count: 1 }] });
+    const limited: Discount = { id: 'd_limited', code: 'LAST1', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, maximumUses: 1, startsAt: TEST_START, isActive: true };
+
+    const result = reserveDiscountUsage(usageStore, [welcome, limited], 'cust_a', { now: TEST_NOW });
+
+    expect(result).toMatchObject({ reserved: false, discount: limited });
+    expect(usageStore.getUsageCount('WELCOME', { now: TEST_NOW })).toBe(0);
+  });
+
+  it('should await an async store and roll back the same way', async () => {
+    const usageStore = createInMemoryUsageStore({ initialUsage: [{ discountKey: 'LAST1', count: 1 }] });
+    const asyncStore: AsyncUsageStore = {
+      getUsageCount: async (discountKey, query) => usageStore.getUsageCount(discountKey, query),
+      reserve: async (discount, customerId, options) => usageStore.reserve(discount, customerId, options),
+      commit: async (reservationId, now) => usageStore.commit(reservationId, now),
+      release: async reservationId => usageStore.release(reservationId),
+    };
+    const limited: Discount = { id: 'd_limited', code: 'LAST1', type: 'SHIPPING', amountType: 'PERCENTAGE', amount: 100, maximumUses: 1, startsAt: TEST_START, isActive: true };
+
+    await expect(reserveDiscountUsageAsync(asyncStore, [welcome, limited], 'cust_a', { now: TEST_NOW }))
+      .resolves.toMatchObject({ reserved: false, discount: limited });
+    await expect(asyncStore.getUsageCount('WELCOME', { now: TEST_NOW })).resolves.toBe(0);
+    await expect(reserveDiscountUsageAsync(asyncStore, [welcome], 'cust_a', { now: TEST_NOW })).resolves.toMatchObject({ reserved: true });
+  });
+});
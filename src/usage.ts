@@ -0,0 +1,109 @@
+import { getRemainingUsesFailures } from "./discount";
+import type {
+  AsyncUsageStore,
+  Discount,
+  DiscountUsageReservationResult,
+  InMemoryUsageStoreOptions,
+  UsageQuery,
+  UsageReservation,
+  UsageReservationResult,
+  UsageStore,
+} from "./types";
+
+export const DEFAULT_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+export function getUsageKey(discount: Discount): string {
+  return discount.code || discount.id;
+}
+
+export function createInMemoryUsageStore(options: InMemoryUsageStoreOptions = {}): UsageStore {
+  const committed: Array<{ discountKey: string; customerId?: string; count: number }> = [...(options.initialUsage ?? [])];
+  const reservations = new Map<string, UsageReservation>();
+  let sequence = 0;
+  const generateId = options.generateId ?? (() => `reservation_${++sequence}`);
+
+  const matches = (entry: { discountKey: string; customerId?: string }, discountKey: string, customerId?: string) =>
+    entry.discountKey === discountKey && (customerId === undefined || entry.customerId === customerId);
+
+  const store: UsageStore = {
+    getUsageCount(discountKey: string, query: UsageQuery): number {
+      const committedCount = committed
+        .filter(entry => matches(entry, discountKey, query.customerId))
+        .reduce((sum, entry) => sum + entry.count, 0);
+      const reservedCount = [...reservations.values()].filter(reservation =>
+        matches(reservation, discountKey, query.customerId) &&
+        reservation.expiresAt.getTime() > query.now.getTime() &&
+        !query.excludeReservationIds?.includes(reservation.id)
+      ).length;
+      return committedCount + reservedCount;
+    },
+
+    reserve(discount: Discount, customerId?: string, reserveOptions: { now?: Date; ttlMs?: number } = {}): UsageReservationResult {
+      const now = reserveOptions.now ?? new Date();
+      const failures = getRemainingUsesFailures(discount, customerId, { now, usageStore: store });
+      if (failures.length > 0) {
+        return { reserved: false, failures };
+      }
+      const reservation: UsageReservation = {
+        id: generateId(),
+        discountKey: getUsageKey(discount),
+        customerId,
+        expiresAt: new Date(now.getTime() + (reserveOptions.ttlMs ?? DEFAULT_RESERVATION_TTL_MS)),
+      };
+      reservations.set(reservation.id, reservation);
+      return { reserved: true, reservation };
+    },
+
+    commit(reservationId: string, now: Date = new Date()): boolean {
+      const reservation = reservations.get(reservationId);
+      if (!reservation) return false;
+      reservations.delete(reservationId);
+      if (reservation.expiresAt.getTime() <= now.getTime()) return false;
+      committed.push({ discountKey: reservation.discountKey, customerId: reservation.customerId, count: 1 });
+      return true;
+    },
+
+    release(reservationId: string): boolean {
+      return reservations.delete(reservationId);
+    },
+  };
+  return store;
+}
+
+// All-or-nothing: when one discount cannot be reserved, the reservations already taken are released.
+export function reserveDiscountUsage(
+  store: UsageStore,
+  discounts: Discount[],
+  customerId?: string,
+  options?: { now?: Date; ttlMs?: number }
+): DiscountUsageReservationResult {
+  const reservations: UsageReservation[] = [];
+  for (const discount of discounts) {
+    const result = store.reserve(discount, customerId, options);
+    if (!result.reserved) {
+      reservations.forEach(reservation => store.release(reservation.id));
+      return { reserved: false, discount, failures: result.failures };
+    }
+    reservations.push(result.reservation);
+  }
+  return { reserved: true, reservations };
+}
+
+// Same as reserveDiscountUsage, for stores whose calls return promises.
+export async function reserveDiscountUsageAsync(
+  store: AsyncUsageStore | UsageStore,
+  discounts: Discount[],
+  customerId?: string,
+  options?: { now?: Date; ttlMs?: number }
+): Promise<DiscountUsageReservationResult> {
+  const reservations: UsageReservation[] = [];
+  for (const discount of discounts) {
+    const result = await store.reserve(discount, customerId, options);
+    if (!result.reserved) {
+      await Promise.all(reservations.map(reservation => store.release(reservation.id)));
+      return { reserved: false, discount, failures: result.failures };
+    }
+    reservations.push(result.reservation);
+  }
+  return { reserved: true, reservations };
+}
@@ -0,0 +1,44 @@
+import type { Discount } from './types';
+import { validateDiscount } from './validation';
+
+const TEST_START = new Date('2025-06-22T00:00:00Z');
+
+describe('validateDiscount', () => {
+  it('should accept a well-formed discount', () => {
+    const discount: Discount = { id: 'd1', code: 'SAVE10', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 10, collections: ['c_sale'], startsAt: TEST_START, isActive: true };
+    expect(validateDiscount(discount)).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should report field-level errors for nonsensical definitions', () => {
+    const discount: Discount = { id: 'd1', type: 'PRODUCT', amountType: 'PERCENTAGE', amount: 150, minimumPurchaseInCents: -100, startsAt: TEST_START, endsAt: new Date('2025-06-01T00:00:00Z') };
+
+    const result = validateDiscount(discount);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(issue => [issue.field, issue.code])).toEqual([
+      ['amount', 'OUT_OF_RANGE'],
+      ['variants', 'NO_TARGET'],
+      ['minimumPurchaseInCents', 'OUT_OF_RANGE'],
+      ['endsAt', 'INVALID_DATE_RANGE'],
+    ]);
+  });
+
+  it('should validate BXGY selectors and tiers', () => {
+    const bxgy = { id: 'd2', type: 'BXGY', amountType: 'PERCENTAGE', amount: 0, buy: { quantity: 0 }, get: { quantity: 1, amountType: 'PERCENTAGE', amount: 120 }, startsAt: TEST_START } as Discount;
+    expect(validateDiscount(bxgy).errors.map(issue => issue.field)).toEqual(['get.amount', 'buy.quantity']);
+
+    const tiered: Discount = { id: 'd3', type: 'ORDER', amountType: 'FIXED', amount: 0, tiers: [{ minimumPurchaseInCents: 5000, amount: 500 }, { minimumPurchaseInCents: 5000, amount: 10.5 }], startsAt: TEST_START };
+    const result = validateDiscount(tiered);
+    expect(result.errors).toEqual([expect.objectContaining({ field: 'tiers.1.amount', code: 'INVALID_VALUE' })]);
+    expect(result.warnings).toEqual([expect.objectContaining({ field: 'tiers.1', code: 'CONFLICTING_FIELDS' })]);
+  });
+
+  it('should warn about fields that have no effect', () => {
+    const discount: Discount = { id: 'd4', type: 'ORDER', amountType: 'FIXED', amount: 500, variants: ['v1'], exclusive: true, combineWithOrderDiscounts: true, countryCodes: ['usa'], startsAt: TEST_START };
+
+    const result = validateDiscount(discount);
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map(issue => issue.field)).toEqual(['variants', 'countryCodes.0', 'exclusive']);
+  });
+});
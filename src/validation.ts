@@ -0,0 +1,309 @@
+import type { Discount, DiscountCondition, DiscountValidationCode, DiscountValidationIssue, DiscountValidationResult } from "./types";
+
+const DISCOUNT_TYPES = ['PRODUCT', 'ORDER', 'SHIPPING', 'BXGY', 'BUNDLE'];
+const AMOUNT_TYPES = ['PERCENTAGE', 'FIXED', 'FIXED_PRICE'];
+const GET_AMOUNT_TYPES = ['PERCENTAGE', 'FIXED', 'FIXED_PRICE', 'FREE'];
+const LIST_CONDITION_FIELDS: Record<string, string> = {
+  ITEM_VARIANT: 'variantIds',
+  ITEM_COLLECTION: 'collectionIds',
+  CUSTOMER_TAG: 'tags',
+  COUNTRY: 'countryCodes',
+  CONTEXT_ATTRIBUTE: 'values',
+};
+const RANGE_CONDITION_TYPES = ['CART_SUBTOTAL', 'CART_QUANTITY', 'ITEM_PRICE', 'ITEM_QUANTITY', 'CUSTOMER_ORDER_COUNT'];
+
+function isValidDate(value: unknown): value is Date {
+  return value instanceof Date && !Number.isNaN(value.getTime());
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function validateCondition(
+  condition: DiscountCondition,
+  path: string,
+  error: (field: string, code: DiscountValidationCode, message: string) => void
+): void {
+  if (!condition || typeof condition !== 'object') {
+    error(path, 'REQUIRED', 'Condition must be an object');
+    return;
+  }
+  if (condition.type === 'AND' || condition.type === 'OR') {
+    if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+      error(`${path}.conditions`, 'REQUIRED', `${condition.type} needs at least one condition`);
+      return;
+    }
+    condition.conditions.forEach((child, index) => validateCondition(child, `${path}.conditions.${index}`, error));
+  } else if (condition.type === 'NOT') {
+    validateCondition(condition.condition, `${path}.condition`, error);
+  } else if (condition.type in LIST_CONDITION_FIELDS) {
+    const field = LIST_CONDITION_FIELDS[condition.type];
+    const values = (condition as Record<string, unknown>)[field];
+    if (!Array.isArray(values) || values.length === 0) {
+      error(`${path}.${field}`, 'REQUIRED', `${condition.type} needs at least one value`);
+    }
+    if (condition.type === 'CONTEXT_ATTRIBUTE' && !condition.key) {
+      error(`${path}.key`, 'REQUIRED', 'CONTEXT_ATTRIBUTE needs a key');
+    }
+  } else if (RANGE_CONDITION_TYPES.includes(condition.type)) {
+    const range = condition as { minimum?: number; maximum?: number; minimumInCents?: number; maximumInCents?: number };
+    const minimum = range.minimum ?? range.minimumInCents;
+    const maximum = range.maximum ?? range.maximumInCents;
+    if (minimum === undefined && maximum === undefined) {
+      error(path, 'REQUIRED', `${condition.type} needs a minimum or a maximum`);
+    } else if (minimum !== undefined && maximum !== undefined && minimum > maximum) {
+      error(path, 'CONFLICTING_FIELDS', 'Minimum is above maximum');
+    }
+  } else if (condition.type === 'DATE_RANGE') {
+    for (const field of ['startsAt', 'endsAt'] as const) {
+      if (condition[field] !== undefined && Number.isNaN(new Date(condition[field]!).getTime())) {
+        error(`${path}.${field}`, 'INVALID_VALUE', `${field} must be an ISO 8601 date`);
+      }
+    }
+  } else {
+    error(`${path}.type`, 'INVALID_VALUE', `Unknown condition type "${(condition as { type: unknown }).type}"`);
+  }
+}
+
+export function validateDiscount(discount: Discount): DiscountValidationResult {
+  const errors: DiscountValidationIssue[] = [];
+  const warnings: DiscountValidationIssue[] = [];
+  const error = (field: string, code: DiscountValidationCode, message: string) => errors.push({ field, code, message });
+  const warning = (field: string, code: DiscountValidationCode, message: string) => warnings.push({ field, code, message });
+
+  const checkAmount = (field: string, amountType: string, amount: unknown) => {
+    if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+      error(field, 'REQUIRED', 'Amount must be a number');
+    } else if (amount < 0) {
+      error(field, 'OUT_OF_RANGE', 'Amount cannot be negative');
+    } else if (amountType === 'PERCENTAGE' && amount > 100) {
+      error(field, 'OUT_OF_RANGE', 'Percentage amount cannot exceed 100');
+    } else if ((amountType === 'FIXED' || amountType === 'FIXED_PRICE') && !Number.isInteger(amount)) {
+      error(field, 'INVALID_VALUE', 'Fixed amount must be a whole number of cents');
+    }
+  };
+
+  if (typeof discount.id !== 'string' || discount.id.trim() === '') {
+    error('id', 'REQUIRED', 'Discount id is required');
+  }
+  if (discount.code !== undefined && (typeof discount.code !== 'string' || discount.code.trim() === '')) {
+    error('code', 'INVALID_VALUE', 'Discount code cannot be empty');
+  }
+  if (!DISCOUNT_TYPES.includes(discount.type)) {
+    error('type', 'INVALID_VALUE', `Discount type must be one of ${DISCOUNT_TYPES.join(', ')}`);
+  }
+  if (!AMOUNT_TYPES.includes(discount.amountType)) {
+    error('amountType', 'INVALID_VALUE', `Amount type must be one of ${AMOUNT_TYPES.join(', ')}`);
+  }
+
+  const hasTiers = Array.isArray(discount.tiers) && discount.tiers.length > 0;
+  if (discount.type !== 'BXGY') {
+    checkAmount('amount', discount.amountType, discount.amount);
+    if (discount.amount === 0 && !hasTiers) {
+      warning('amount', 'NO_EFFECT', 'Discount amount is 0');
+    }
+  }
+
+  discount.tiers?.forEach((tier, index) => {
+    checkAmount(`tiers.${index}.amount`, tier.amountType ?? discount.amountType, tier.amount);
+    if (tier.minimumPurchaseInCents !== undefined && !isNonNegativeInteger(tier.minimumPurchaseInCents)) {
+      error(`tiers.${index}.minimumPurchaseInCents`, 'OUT_OF_RANGE', 'Tier minimum purchase must be a non-negative whole number of cents');
+    }
+    if (tier.minimumQuantity !== undefined && !isPositiveInteger(tier.minimumQuantity)) {
+      error(`tiers.${index}.minimumQuantity`, 'OUT_OF_RANGE', 'Tier minimum quantity must be a positive whole number');
+    }
+    const duplicate = discount.tiers!.findIndex(other =>
+      (other.minimumPurchaseInCents ?? 0) === (tier.minimumPurchaseInCents ?? 0) &&
+      (other.minimumQuantity ?? 0) === (tier.minimumQuantity ?? 0)
+    );
+    if (duplicate !== index) {
+      warning(`tiers.${index}`, 'CONFLICTING_FIELDS', `Tier has the same thresholds as tier ${duplicate}`);
+    }
+  });
+  if (hasTiers && (discount.type === 'BXGY' || discount.type === 'BUNDLE')) {
+    warning('tiers', 'UNUSED_FIELD', `Tiers are ignored for ${discount.type} discounts`);
+  }
+
+  if (discount.type === 'BUNDLE') {
+    if (!discount.bundle || !Array.isArray(discount.bundle.components) || discount.bundle.components.length === 0) {
+      error('bundle.components', 'REQUIRED', 'BUNDLE discounts need at least one component');
+    } else {
+      discount.bundle.components.forEach((component, index) => {
+        if (!isPositiveInteger(component.quantity)) {
+          error(`bundle.components.${index}.quantity`, 'OUT_OF_RANGE', 'Component quantity must be a positive whole number');
+        }
+      });
+    }
+  } else if (discount.bundle) {
+    warning('bundle', 'UNUSED_FIELD', 'Bundle components are only used by BUNDLE discounts');
+  }
+
+  if (discount.type === 'PRODUCT') {
+    const hasTarget = discount.applyToAllProducts || (discount.variants?.length ?? 0) > 0 || (discount.collections?.length ?? 0) > 0;
+    if (!hasTarget) {
+      error('variants', 'NO_TARGET', 'PRODUCT discounts need variants, collections or applyToAllProducts');
+    }
+  } else if ((discount.variants?.length ?? 0) > 0 || (discount.collections?.length ?? 0) > 0 || discount.applyToAllProducts) {
+    warning('variants', 'UNUSED_FIELD', `Product targeting is ignored for ${discount.type} discounts`);
+  }
+  if (discount.type !== 'PRODUCT' && (
+    (discount.excludedVariants?.length ?? 0) > 0 || (discount.excludedCollections?.length ?? 0) > 0 ||
+    discount.excludeItemsOnSale || discount.maximumDiscountedQuantity !== undefined
+  )) {
+    warning('excludedVariants', 'UNUSED_FIELD', `Product exclusions and quantity caps are ignored for ${discount.type} discounts`);
+  }
+  const excludedTargets = discount.variants?.filter(variantId => discount.excludedVariants?.includes(variantId)) ?? [];
+  if (excludedTargets.length > 0) {
+    warning('excludedVariants', 'CONFLICTING_FIELDS', `Variants ${excludedTargets.join(', ')} are both targeted and excluded`);
+  }
+
+  if (discount.type === 'BXGY') {
+    if (!discount.get) {
+      error('get', 'REQUIRED', 'BXGY discounts need a get selector');
+    } else {
+      if (!isPositiveInteger(discount.get.quantity)) {
+        error('get.quantity', 'OUT_OF_RANGE', 'Get quantity must be a positive whole number');
+      }
+      if (!GET_AMOUNT_TYPES.includes(discount.get.amountType)) {
+        error('get.amountType', 'INVALID_VALUE', `Get amount type must be one of ${GET_AMOUNT_TYPES.join(', ')}`);
+      } else if (discount.get.amountType !== 'FREE') {
+        checkAmount('get.amount', discount.get.amountType, discount.get.amount);
+      }
+    }
+    if (discount.buy?.quantity !== undefined && !isPositiveInteger(discount.buy.quantity)) {
+      error('buy.quantity', 'OUT_OF_RANGE', 'Buy quantity must be a positive whole number');
+    }
+    if (discount.buy?.minimumPurchaseInCents !== undefined && !isNonNegativeInteger(discount.buy.minimumPurchaseInCents)) {
+      error('buy.minimumPurchaseInCents', 'OUT_OF_RANGE', 'Buy minimum purchase must be a non-negative whole number of cents');
+    }
+  } else if (discount.buy || discount.get || (discount.maximumApplicationsPerOrder !== undefined && discount.type !== 'BUNDLE')) {
+    warning('buy', 'UNUSED_FIELD', 'Buy and get selectors are only used by BXGY discounts');
+  }
+
+  const centFields = ['minimumPurchaseInCents', 'maximumAmountForShippingInCents', 'maximumDiscountInCents', 'maximumShippingRateInCents'] as const;
+  for (const field of centFields) {
+    if (discount[field] !== undefined && !isNonNegativeInteger(discount[field])) {
+      error(field, 'OUT_OF_RANGE', `${field} must be a non-negative whole number of cents`);
+    }
+  }
+  const countFields = [
+    'minimumQuantity', 'maximumUses', 'maximumUsesPerCustomer', 'maximumApplicationsPerOrder', 'maximumDiscountedQuantity', 'maximumShippingWeightInGrams',
+  ] as const;
+  for (const field of countFields) {
+    if (discount[field] !== undefined && !isPositiveInteger(discount[field])) {
+      error(field, 'OUT_OF_RANGE', `${field} must be a positive whole number`);
+    }
+  }
+  if (discount.maximumAmountForShippingInCents !== undefined && discount.type !== 'SHIPPING') {
+    warning('maximumAmountForShippingInCents', 'UNUSED_FIELD', 'Shipping cap is only used by SHIPPING discounts');
+  }
+  if (discount.type !== 'SHIPPING' && (
+    (discount.shippingMethods?.length ?? 0) > 0 || (discount.shippingCarriers?.length ?? 0) > 0 ||
+    discount.maximumShippingRateInCents !== undefined || discount.maximumShippingWeightInGrams !== undefined
+  )) {
+    warning('shippingMethods', 'UNUSED_FIELD', `Shipping targeting is ignored for ${discount.type} discounts`);
+  }
+
+  if (!isValidDate(discount.startsAt)) {
+    error('startsAt', 'REQUIRED', 'startsAt must be a valid date');
+  }
+  if (discount.endsAt !== undefined) {
+    if (!isValidDate(discount.endsAt)) {
+      error('endsAt', 'INVALID_VALUE', 'endsAt must be a valid date');
+    } else if (isValidDate(discount.startsAt) && discount.endsAt.getTime() <= discount.startsAt.getTime()) {
+      error('endsAt', 'INVALID_DATE_RANGE', 'endsAt must be after startsAt');
+    }
+  }
+
+  if (discount.schedule) {
+    const { timeZone, daysOfWeek, daysOfMonth, months, timeWindows } = discount.schedule;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+      error('schedule.timeZone', 'INVALID_VALUE', `"${timeZone}" is not an IANA time zone`);
+    }
+    const checkRange = (field: string, values: number[] | undefined, minimum: number, maximum: number) => {
+      if (values?.some(value => !Number.isInteger(value) || value < minimum || value > maximum)) {
+        error(`schedule.${field}`, 'OUT_OF_RANGE', `${field} must be whole numbers from ${minimum} to ${maximum}`);
+      }
+    };
+    checkRange('daysOfWeek', daysOfWeek, 0, 6);
+    checkRange('daysOfMonth', daysOfMonth, 1, 31);
+    checkRange('months', months, 1, 12);
+    timeWindows?.forEach((window, index) => {
+      for (const field of ['start', 'end'] as const) {
+        if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(window[field])) {
+          error(`schedule.timeWindows.${index}.${field}`, 'INVALID_VALUE', `${field} must be an HH:mm time`);
+        }
+      }
+    });
+  }
+
+  discount.countryCodes?.forEach((countryCode, index) => {
+    if (!/^[A-Z]{2}$/.test(countryCode)) {
+      warning(`countryCodes.${index}`, 'INVALID_VALUE', `"${countryCode}" is not an ISO 3166-1 alpha-2 country code`);
+    }
+  });
+  if (discount.fundedBy !== undefined && !['STORE', 'PLATFORM'].includes(discount.fundedBy)) {
+    error('fundedBy', 'INVALID_VALUE', 'fundedBy must be STORE or PLATFORM');
+  } else if (discount.fundedBy === 'STORE' && !discount.storeId) {
+    error('fundedBy', 'CONFLICTING_FIELDS', 'Only store discounts can be funded by a store');
+  }
+
+  if (discount.condition !== undefined) {
+    validateCondition(discount.condition, 'condition', error);
+  }
+
+  if (discount.customerSegment) {
+    const segment = discount.customerSegment;
+    const segmentFields = ['minimumOrderCount', 'maximumOrderCount', 'minimumLifetimeSpendInCents'] as const;
+    for (const field of segmentFields) {
+      if (segment[field] !== undefined && !isNonNegativeInteger(segment[field])) {
+        error(`customerSegment.${field}`, 'OUT_OF_RANGE', `${field} must be a non-negative whole number`);
+      }
+    }
+    if (segment.minimumOrderCount !== undefined && segment.maximumOrderCount !== undefined && segment.minimumOrderCount > segment.maximumOrderCount) {
+      error('customerSegment.maximumOrderCount', 'CONFLICTING_FIELDS', 'maximumOrderCount is below minimumOrderCount');
+    }
+    if (segment.firstOrderOnly && (segment.minimumOrderCount ?? 0) > 0) {
+      error('customerSegment.firstOrderOnly', 'CONFLICTING_FIELDS', 'firstOrderOnly cannot be combined with a minimum order count');
+    }
+  }
+  const excludedListed = discount.customers?.filter(customerId => discount.excludedCustomers?.includes(customerId)) ?? [];
+  if (excludedListed.length > 0) {
+    warning('excludedCustomers', 'CONFLICTING_FIELDS', `Customers ${excludedListed.join(', ')} are both targeted and excluded`);
+  }
+
+  if (discount.currency !== undefined && !/^[A-Z]{3}$/.test(discount.currency)) {
+    error('currency', 'INVALID_VALUE', `"${discount.currency}" is not an ISO 4217 currency code`);
+  }
+  for (const [currency, amounts] of Object.entries(discount.amountsByCurrency ?? {})) {
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      error(`amountsByCurrency.${currency}`, 'INVALID_VALUE', `"${currency}" is not an ISO 4217 currency code`);
+    }
+    for (const [field, value] of Object.entries(amounts)) {
+      if (value !== undefined && !isNonNegativeInteger(value)) {
+        error(`amountsByCurrency.${currency}.${field}`, 'OUT_OF_RANGE', `${field} must be a non-negative whole number of minor units`);
+      }
+    }
+  }
+  if (discount.amountsByCurrency && !discount.currency) {
+    warning('amountsByCurrency', 'CONFLICTING_FIELDS', 'amountsByCurrency is ignored without a base currency');
+  }
+  if (discount.applyToAllCountries && (discount.countryCodes?.length ?? 0) > 0) {
+    warning('countryCodes', 'CONFLICTING_FIELDS', 'countryCodes are ignored when applyToAllCountries is set');
+  }
+  if (discount.exclusive && (discount.combineWithProductDiscounts || discount.combineWithOrderDiscounts || discount.combineWithShippingDiscounts)) {
+    warning('exclusive', 'CONFLICTING_FIELDS', 'Exclusive discounts never combine, combineWith* flags are ignored');
+  }
+  if (discount.limitOncePerCustomer && discount.maximumUsesPerCustomer !== undefined && discount.maximumUsesPerCustomer > 1) {
+    warning('maximumUsesPerCustomer', 'CONFLICTING_FIELDS', 'limitOncePerCustomer caps customer usage at 1');
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}